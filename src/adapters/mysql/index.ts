@@ -0,0 +1,385 @@
+/**
+ * MySQL适配器
+ * 提供MySQL/MariaDB数据库的SQL生成和数据库内省功能
+ */
+
+import { createPool, Pool, ResultSetHeader, RowDataPacket } from 'mysql2/promise'
+import { MySQLSqlGenerator } from './sql-generator'
+import { CursorPage, CursorPaginateOptions, OffsetPage, PagePaginateOptions, RelationMap, ResultOf, SqlFragment, WhereCondition } from '../../core/builder'
+import { MySQLIntrospector } from './introspect'
+import { GeneratedTable, InterfaceGenOptions, IntrospectOptions, IntrospectResult, writeInterfaceFiles } from '../../core/interface-gen'
+import { matchTableFilters } from '../../utils'
+
+/**
+ * MySQL连接配置
+ */
+export interface MySQLConfig {
+    host: string
+    port: number
+    user: string
+    password: string
+    database: string
+    ssl?: boolean
+    pool?: {
+        max?: number
+        idleTimeoutMillis?: number
+        connectionTimeoutMillis?: number
+    }
+}
+
+/**
+ * MySQL查询结果
+ * 与 pg 的 QueryResult 保持相同的 rows / rowCount 结构
+ */
+export interface MySQLQueryResult<T = any> {
+    rows: T[]
+    rowCount: number
+    /** 自增主键值（仅写操作） */
+    insertId?: number
+}
+
+/**
+ * 将参数转换为MySQL可绑定的值
+ * mysql2 的 query() 会把对象展开为 `key` = value 列表、把数组展开为逗号分隔的值，
+ * 因此普通对象和数组（如JSON列的值）先序列化为JSON，Date 和 Buffer 交给驱动处理
+ * @private
+ */
+function normalizeParam(param: any): any {
+    if (param === undefined) return null
+    if (param !== null && typeof param === 'object' && !(param instanceof Date) && !Buffer.isBuffer(param)) {
+        return JSON.stringify(param)
+    }
+    return param
+}
+
+/**
+ * MySQL适配器类
+ * 提供完整的MySQL数据库操作功能
+ */
+export class MySQLAdapter {
+    private pool: Pool
+    private database: string
+    private introspector: MySQLIntrospector
+
+    constructor(config: MySQLConfig) {
+        this.database = config.database
+        this.pool = createPool({
+            host: config.host,
+            port: config.port,
+            user: config.user,
+            password: config.password,
+            database: config.database,
+            ssl: config.ssl ? {} : undefined,
+            connectionLimit: config.pool?.max,
+            idleTimeout: config.pool?.idleTimeoutMillis,
+            connectTimeout: config.pool?.connectionTimeoutMillis,
+            // 日期时间以字符串返回，与生成的类型保持一致
+            dateStrings: true,
+            // tinyint(1) 转换为布尔值
+            typeCast: (field, next) => {
+                if (field.type === 'TINY' && field.length === 1) {
+                    const val = field.string()
+                    return val === null ? null : val === '1'
+                }
+                return next()
+            }
+        })
+
+        this.introspector = new MySQLIntrospector(this.pool)
+    }
+
+    /**
+     * 创建SQL生成器
+     * @param table 表名
+     * @example
+     * const sql = adapter.createSqlGenerator<User>('users')
+     *   .select('id', 'name', 'email')
+     *   .where({ status: 'active' })
+     *   .limit(10)
+     */
+    createSqlGenerator<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, relations?: R): MySQLSqlGenerator<T, TInsert, TUpdate, R> {
+        return new MySQLSqlGenerator<T, TInsert, TUpdate, R>(table, relations)
+    }
+
+    /**
+     * 执行查询
+     * @param sql SQL语句
+     * @param params 参数数组
+     * @example
+     * const result = await adapter.query('SELECT * FROM users WHERE id = ?', [1])
+     */
+    async query(sql: string, params?: any[]): Promise<MySQLQueryResult> {
+        const values = (params || []).map(normalizeParam)
+        const [result] = await this.pool.query<RowDataPacket[] | ResultSetHeader>(sql, values)
+
+        if (Array.isArray(result)) {
+            return { rows: result, rowCount: result.length }
+        }
+
+        return { rows: [], rowCount: result.affectedRows, insertId: result.insertId }
+    }
+
+    /**
+     * 执行查询并返回单条结果
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
+        const result = await this.query(sql, params)
+        return result.rows[0] || null
+    }
+
+    /**
+     * 执行查询并返回结果数组
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async queryMany<T = any>(sql: string, params?: any[]): Promise<T[]> {
+        const result = await this.query(sql, params)
+        return result.rows
+    }
+
+    /**
+     * 获取数据库内省器
+     */
+    getIntrospector(): MySQLIntrospector {
+        return this.introspector
+    }
+
+    /**
+     * 获取所有表信息
+     * @param schema 数据库名，默认为连接的数据库
+     */
+    async getAllTables(schema: string = this.database) {
+        return await this.introspector.getAllTables(schema)
+    }
+
+    /**
+     * 获取表结构信息
+     * @param tableName 表名
+     * @param schema 数据库名，默认为连接的数据库
+     */
+    async getTableStructure(tableName: string, schema: string = this.database) {
+        return await this.introspector.getTableStructure(tableName, schema)
+    }
+
+    /**
+     * 生成表的TypeScript接口
+     * @param tableName 表名
+     * @param schema 数据库名，默认为连接的数据库
+     */
+    async generateTableInterface(tableName: string, schema: string = this.database, includeComments: boolean = true, options: InterfaceGenOptions = {}) {
+        const columns = await this.introspector.getTableStructure(tableName, schema)
+        const primaryKeys = await this.introspector.getPrimaryKeys(tableName, schema)
+        const tables = await this.introspector.getAllTables(schema)
+        const table = tables.find(t => t.table_name === tableName)
+
+        if (!table) {
+            throw new Error(`Table ${tableName} not found`)
+        }
+
+        return this.introspector.generateInterface(
+            tableName,
+            table.table_comment,
+            columns,
+            primaryKeys,
+            includeComments,
+            options
+        )
+    }
+
+    /**
+     * 生成所有表的TypeScript接口
+     * @param schema 数据库名，默认为连接的数据库
+     */
+    async generateAllInterfaces(schema: string = this.database, includeComments: boolean = true) {
+        return await this.introspector.generateAllInterfaces(schema, includeComments)
+    }
+
+    /**
+     * 数据库内省：生成所有表的TypeScript接口并保存到指定目录
+     * @param outputDir 输出目录路径
+     * @param schema 数据库名，默认为连接的数据库
+     * @param options 配置选项
+     */
+    async introspect(
+        outputDir: string,
+        schema: string = this.database,
+        options: IntrospectOptions = {}
+    ): Promise<IntrospectResult> {
+        try {
+            const { includeComments = true } = options
+
+            // 获取所有表信息，按包含/排除模式过滤
+            const tables = (await this.getAllTables(schema))
+                .filter(table => matchTableFilters(table.table_name, options))
+            if (tables.length === 0) {
+                return {
+                    success: false,
+                    message: `在数据库 '${schema}' 中没有找到任何表`,
+                    files: [],
+                    tables: []
+                }
+            }
+
+            // 生成所有表的接口
+            const generated: GeneratedTable[] = []
+            for (const table of tables) {
+                generated.push({
+                    tableName: table.table_name,
+                    tableComment: table.table_comment,
+                    content: await this.generateTableInterface(table.table_name, schema, includeComments, options)
+                })
+            }
+
+            return writeInterfaceFiles(outputDir, generated, `数据库: ${schema}`, options)
+
+        } catch (error) {
+            return {
+                success: false,
+                message: `内省失败: ${error instanceof Error ? error.message : String(error)}`,
+                files: [],
+                tables: [],
+                error
+            }
+        }
+    }
+
+    /**
+     * 关闭数据库连接池
+     */
+    async close(): Promise<void> {
+        await this.pool.end()
+    }
+
+    /**
+     * 获取连接池实例
+     */
+    getPool(): Pool {
+        return this.pool
+    }
+}
+
+/**
+ * 便捷的查询构建器
+ * 结合SQL生成器和连接池的查询执行器
+ */
+export class MySQLQueryBuilder<
+    T extends Record<string, any>,
+    TInsert extends Record<string, any> = Partial<T>,
+    TUpdate extends Record<string, any> = Partial<T>,
+    R extends RelationMap = {}
+> extends MySQLSqlGenerator<T, TInsert, TUpdate, R> {
+    private adapter: MySQLAdapter
+
+    constructor(table: string, adapter: MySQLAdapter, relations?: R) {
+        super(table, relations)
+        this.adapter = adapter
+    }
+
+    /**
+     * 创建新的查询实例
+     * @param table 表名
+     * @param adapter 数据库适配器
+     * @param relations 表关系（如内省生成的 UsersRelations），用于 joinRelation() 和 with()
+     */
+    static from<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, adapter: MySQLAdapter, relations?: R): MySQLQueryBuilder<T, TInsert, TUpdate, R> {
+        return new MySQLQueryBuilder<T, TInsert, TUpdate, R>(table, adapter, relations)
+    }
+
+    /**
+     * 添加HAVING条件，键为查询结果中的列或 select() 中的别名
+     * @example
+     * await orders.select('user_id', { total: sum('amount') })
+     *   .groupBy('user_id')
+     *   .having({ total: { $gte: 1000 } })
+     *   .execMany()
+     */
+    having(condition: string | SqlFragment | WhereCondition<ResultOf<this, T>>): this {
+        return super.having(condition as WhereCondition<Record<string, any>>)
+    }
+
+    /**
+     * 执行查询并返回结果
+     */
+    async exec(): Promise<MySQLQueryResult<ResultOf<this, T>>> {
+        const { sql, params } = this.getSqlWithParams()
+        const result = await this.adapter.query(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return result
+    }
+
+    /**
+     * 执行查询并返回单条结果
+     */
+    async execOne(): Promise<ResultOf<this, T> | null> {
+        const { sql, params } = this.getSqlWithParams()
+        const result = await this.adapter.queryOne<ResultOf<this, T>>(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return result
+    }
+
+    /**
+     * 执行查询并返回结果数组
+     */
+    async execMany(): Promise<ResultOf<this, T>[]> {
+        const { sql, params } = this.getSqlWithParams()
+        const result = await this.adapter.queryMany<ResultOf<this, T>>(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return result
+    }
+
+    /**
+     * 分页查询
+     * 传入 first 时使用键集分页，按排序列的值定位下一页，插入新行不会导致重复或遗漏；
+     * 传入 page / pageSize 时使用页码分页，行和总行数在同一次查询中返回
+     * @example
+     * const first = await orders.where({ status: 'paid' }).paginate({ first: 20, orderBy: [['created_at', 'DESC'], 'id'] })
+     * const next = await orders.where({ status: 'paid' }).paginate({ first: 20, orderBy: [['created_at', 'DESC'], 'id'], cursor: first.nextCursor })
+     *
+     * const { items, total, pages } = await orders.paginate({ page: 3, pageSize: 20 })
+     */
+    paginate(options: CursorPaginateOptions<T>): Promise<CursorPage<ResultOf<this, T>>>
+    paginate(options: PagePaginateOptions): Promise<OffsetPage<ResultOf<this, T>>>
+    paginate(options: CursorPaginateOptions<T> | PagePaginateOptions): Promise<CursorPage<ResultOf<this, T>> | OffsetPage<ResultOf<this, T>>> {
+        return this.executePaginate<ResultOf<this, T>>(options, (sql, params) => this.adapter.queryMany(sql, params))
+    }
+
+    /**
+     * 执行查询并返回结果数量
+     */
+    async execCount(): Promise<number> {
+        const { sql, params } = this.compiler.compile(this.buildCountQuery())
+        const result = await this.adapter.queryOne<{ count: number }>(sql, params)
+        return Number(result?.count ?? 0)
+    }
+}
+
+// 导出类型
+export type {
+    MySQLIntrospector,
+    MySQLTableInfo,
+    MySQLColumnInfo,
+    MySQLForeignKeyInfo,
+    MySQLIndexInfo,
+    MySQLGeneratedInterface
+} from './introspect'
+
+// 参数化SQL片段
+export { sql, SqlFragment } from '../../core/builder'
+
+// 聚合函数
+export { count, countDistinct, sum, avg, min, max, AggregateFragment } from '../../core/builder'
@@ -0,0 +1,346 @@
+import { Pool, RowDataPacket } from 'mysql2/promise'
+import {
+    findTypeOverride,
+    generateInterface,
+    InterfaceColumn,
+    InterfaceGenOptions,
+    NamingOptions,
+    tableNameToInterfaceName,
+    toStringLiteralUnion
+} from '../../core/interface-gen'
+
+/**
+ * MySQL数据库内省器
+ * 用于从数据库结构自动生成TypeScript接口
+ */
+export class MySQLIntrospector {
+    private pool: Pool
+
+    constructor(pool: Pool) {
+        this.pool = pool
+    }
+
+    /**
+     * MySQL类型到TypeScript类型的映射
+     * 日期时间类型以字符串返回（连接时启用 dateStrings），
+     * DECIMAL 由驱动以字符串返回以避免精度丢失
+     */
+    private static readonly TYPE_MAP: Record<string, string> = {
+        'tinyint': 'number',
+        'smallint': 'number',
+        'mediumint': 'number',
+        'int': 'number',
+        'integer': 'number',
+        'bigint': 'number',
+        'float': 'number',
+        'double': 'number',
+        'real': 'number',
+        'decimal': 'string',
+        'numeric': 'string',
+        'bit': 'Buffer',
+        'year': 'number',
+        'char': 'string',
+        'varchar': 'string',
+        'tinytext': 'string',
+        'text': 'string',
+        'mediumtext': 'string',
+        'longtext': 'string',
+        'date': 'string',
+        'datetime': 'string',
+        'timestamp': 'string',
+        'time': 'string',
+        'json': 'any',
+        'binary': 'Buffer',
+        'varbinary': 'Buffer',
+        'tinyblob': 'Buffer',
+        'blob': 'Buffer',
+        'mediumblob': 'Buffer',
+        'longblob': 'Buffer'
+    }
+
+    /**
+     * 获取所有表的信息
+     * @param schema 数据库名
+     */
+    async getAllTables(schema: string): Promise<MySQLTableInfo[]> {
+        const [rows] = await this.pool.query<RowDataPacket[]>(`
+            SELECT
+                TABLE_NAME AS table_name,
+                NULLIF(TABLE_COMMENT, '') AS table_comment
+            FROM information_schema.TABLES
+            WHERE TABLE_SCHEMA = ?
+            AND TABLE_TYPE = 'BASE TABLE'
+            ORDER BY TABLE_NAME
+        `, [schema])
+        return rows as MySQLTableInfo[]
+    }
+
+    /**
+     * 获取表的结构信息
+     * @param tableName 表名
+     * @param schema 数据库名
+     */
+    async getTableStructure(tableName: string, schema: string): Promise<MySQLColumnInfo[]> {
+        const [rows] = await this.pool.query<RowDataPacket[]>(`
+            SELECT
+                COLUMN_NAME AS column_name,
+                DATA_TYPE AS data_type,
+                COLUMN_TYPE AS column_type,
+                IS_NULLABLE AS is_nullable,
+                COLUMN_DEFAULT AS column_default,
+                EXTRA AS extra,
+                CHARACTER_MAXIMUM_LENGTH AS character_maximum_length,
+                NUMERIC_PRECISION AS numeric_precision,
+                NUMERIC_SCALE AS numeric_scale,
+                NULLIF(COLUMN_COMMENT, '') AS column_comment
+            FROM information_schema.COLUMNS
+            WHERE TABLE_SCHEMA = ?
+            AND TABLE_NAME = ?
+            ORDER BY ORDINAL_POSITION
+        `, [schema, tableName])
+        return rows as MySQLColumnInfo[]
+    }
+
+    /**
+     * 获取表的主键信息
+     * @param tableName 表名
+     * @param schema 数据库名
+     */
+    async getPrimaryKeys(tableName: string, schema: string): Promise<string[]> {
+        const [rows] = await this.pool.query<RowDataPacket[]>(`
+            SELECT COLUMN_NAME AS column_name
+            FROM information_schema.KEY_COLUMN_USAGE
+            WHERE TABLE_SCHEMA = ?
+            AND TABLE_NAME = ?
+            AND CONSTRAINT_NAME = 'PRIMARY'
+            ORDER BY ORDINAL_POSITION
+        `, [schema, tableName])
+        return rows.map(row => row.column_name)
+    }
+
+    /**
+     * 获取表的外键信息
+     * @param tableName 表名
+     * @param schema 数据库名
+     */
+    async getForeignKeys(tableName: string, schema: string): Promise<MySQLForeignKeyInfo[]> {
+        const [rows] = await this.pool.query<RowDataPacket[]>(`
+            SELECT
+                kcu.COLUMN_NAME AS column_name,
+                kcu.REFERENCED_TABLE_NAME AS foreign_table_name,
+                kcu.REFERENCED_COLUMN_NAME AS foreign_column_name,
+                rc.UPDATE_RULE AS update_rule,
+                rc.DELETE_RULE AS delete_rule
+            FROM information_schema.KEY_COLUMN_USAGE kcu
+            JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
+                ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+                AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+            WHERE kcu.TABLE_SCHEMA = ?
+            AND kcu.TABLE_NAME = ?
+            AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
+            ORDER BY kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+        `, [schema, tableName])
+        return rows as MySQLForeignKeyInfo[]
+    }
+
+    /**
+     * 获取表的索引信息
+     * @param tableName 表名
+     * @param schema 数据库名
+     */
+    async getIndexes(tableName: string, schema: string): Promise<MySQLIndexInfo[]> {
+        const [rows] = await this.pool.query<RowDataPacket[]>(`
+            SELECT
+                INDEX_NAME AS index_name,
+                COLUMN_NAME AS column_name,
+                NON_UNIQUE = 0 AS is_unique,
+                INDEX_NAME = 'PRIMARY' AS is_primary
+            FROM information_schema.STATISTICS
+            WHERE TABLE_SCHEMA = ?
+            AND TABLE_NAME = ?
+            ORDER BY INDEX_NAME, SEQ_IN_INDEX
+        `, [schema, tableName])
+        return rows.map(row => ({
+            index_name: row.index_name,
+            column_name: row.column_name,
+            is_unique: Boolean(row.is_unique),
+            is_primary: Boolean(row.is_primary)
+        }))
+    }
+
+    /**
+     * 生成TypeScript接口定义
+     * @param tableName 表名
+     * @param tableComment 表注释
+     * @param columns 列信息
+     * @param primaryKeys 主键列表
+     * @param options 命名规则和类型覆盖
+     */
+    generateInterface(
+        tableName: string,
+        tableComment: string | null,
+        columns: MySQLColumnInfo[],
+        primaryKeys: string[] = [],
+        includeComments: boolean = true,
+        options: InterfaceGenOptions = {}
+    ): string {
+        const interfaceColumns: InterfaceColumn[] = columns.map(column => ({
+            name: column.column_name,
+            type: findTypeOverride(options.typeOverrides, tableName, column.column_name, [column.column_type, column.data_type])
+                ?? this.getTypeScriptType(column),
+            nullable: column.is_nullable === 'YES',
+            defaultValue: column.column_default,
+            primaryKey: primaryKeys.includes(column.column_name),
+            hasDefault: column.column_default !== null || /auto_increment/i.test(column.extra),
+            comment: column.column_comment
+        }))
+
+        return generateInterface(tableName, tableComment, interfaceColumns, includeComments, options)
+    }
+
+    /**
+     * 将表名转换为接口名
+     * @param tableName 表名
+     * @param naming 命名规则
+     */
+    tableNameToInterfaceName(tableName: string, naming?: NamingOptions): string {
+        return tableNameToInterfaceName(tableName, naming)
+    }
+
+    /**
+     * 获取TypeScript类型
+     * @param column 列信息
+     */
+    private getTypeScriptType(column: MySQLColumnInfo): string {
+        const dataType = column.data_type.toLowerCase()
+        const columnType = column.column_type.toLowerCase()
+
+        // tinyint(1) 约定为布尔值
+        if (dataType === 'tinyint' && columnType.startsWith('tinyint(1)')) {
+            return 'boolean'
+        }
+
+        // ENUM 生成字符串字面量联合类型
+        if (dataType === 'enum') {
+            const values = this.parseEnumValues(column.column_type)
+            return values.length > 0 ? toStringLiteralUnion(values) : 'string'
+        }
+
+        // SET 以逗号分隔的字符串返回
+        if (dataType === 'set') {
+            return 'string'
+        }
+
+        if (MySQLIntrospector.TYPE_MAP[dataType]) {
+            return MySQLIntrospector.TYPE_MAP[dataType]
+        }
+
+        // 默认返回any
+        return 'any'
+    }
+
+    /**
+     * 解析 enum('a','b') / set('a','b') 的取值列表
+     * @param columnType 列类型定义
+     */
+    private parseEnumValues(columnType: string): string[] {
+        const match = columnType.match(/^\w+\(([\s\S]*)\)$/)
+        if (!match) return []
+
+        const values: string[] = []
+        const pattern = /'((?:[^']|'')*)'/g
+        let result: RegExpExecArray | null
+        while ((result = pattern.exec(match[1])) !== null) {
+            values.push(result[1].replace(/''/g, "'"))
+        }
+        return values
+    }
+
+    /**
+     * 生成完整的数据库接口文件
+     * @param schema 数据库名
+     */
+    async generateAllInterfaces(schema: string, includeComments: boolean = true): Promise<MySQLGeneratedInterface[]> {
+        const tables = await this.getAllTables(schema)
+        const results: MySQLGeneratedInterface[] = []
+
+        for (const table of tables) {
+            const columns = await this.getTableStructure(table.table_name, schema)
+            const primaryKeys = await this.getPrimaryKeys(table.table_name, schema)
+
+            results.push({
+                tableName: table.table_name,
+                interfaceName: this.tableNameToInterfaceName(table.table_name),
+                content: this.generateInterface(
+                    table.table_name,
+                    table.table_comment,
+                    columns,
+                    primaryKeys,
+                    includeComments
+                ),
+                columns,
+                primaryKeys
+            })
+        }
+
+        return results
+    }
+}
+
+/**
+ * 表信息接口
+ */
+export interface MySQLTableInfo {
+    table_name: string
+    table_comment: string | null
+}
+
+/**
+ * 列信息接口
+ */
+export interface MySQLColumnInfo {
+    column_name: string
+    data_type: string
+    /** 完整类型定义，如 tinyint(1)、enum('a','b') */
+    column_type: string
+    is_nullable: string
+    column_default: string | null
+    /** 额外信息，如 auto_increment */
+    extra: string
+    character_maximum_length: number | null
+    numeric_precision: number | null
+    numeric_scale: number | null
+    column_comment: string | null
+}
+
+/**
+ * 外键信息接口
+ */
+export interface MySQLForeignKeyInfo {
+    column_name: string
+    foreign_table_name: string
+    foreign_column_name: string
+    update_rule: string
+    delete_rule: string
+}
+
+/**
+ * 索引信息接口
+ */
+export interface MySQLIndexInfo {
+    index_name: string
+    column_name: string
+    is_unique: boolean
+    is_primary: boolean
+}
+
+/**
+ * 生成的接口信息
+ */
+export interface MySQLGeneratedInterface {
+    tableName: string
+    interfaceName: string
+    content: string
+    columns: MySQLColumnInfo[]
+    primaryKeys: string[]
+}
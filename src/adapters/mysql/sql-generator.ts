@@ -0,0 +1,81 @@
+import { CompileContext, ExcludedNode, ExpressionNode, OnConflictNode, QueryCompiler, RelationMap, SqlGenerator } from '../../core/builder'
+
+/**
+ * MySQL/MariaDB查询编译器
+ * 使用反引号引用标识符，使用 ? 作为参数占位符
+ */
+export class MySQLCompiler extends QueryCompiler {
+    quoteIdentifier(identifier: string): string {
+        return `\`${identifier.replace(/`/g, '``')}\``
+    }
+
+    placeholder(): string {
+        return '?'
+    }
+
+    /**
+     * MySQL使用 ON DUPLICATE KEY UPDATE 实现UPSERT
+     * 冲突由表上的任意主键/唯一索引触发，columns 仅用于忽略冲突时生成空操作赋值；
+     * 不支持指定约束名和条件
+     */
+    protected compileOnConflict(onConflict: OnConflictNode, context: CompileContext): string {
+        if (onConflict.constraint) {
+            throw new Error('ON CONFLICT ON CONSTRAINT is not supported by MySQL')
+        }
+        if (onConflict.where?.length || onConflict.updateWhere?.length) {
+            throw new Error('Conditional upsert is not supported by MySQL')
+        }
+        if (onConflict.update && onConflict.update.length > 0) {
+            return ` ON DUPLICATE KEY UPDATE ${this.compileAssignments(onConflict.update, context)}`
+        }
+        if (onConflict.columns.length === 0) {
+            throw new Error('onConflict requires columns in MySQL')
+        }
+
+        // 忽略冲突：将冲突列赋值为自身，避免 INSERT IGNORE 吞掉其他错误
+        const noop = this.quoteIdentifier(onConflict.columns[0])
+        return ` ON DUPLICATE KEY UPDATE ${noop} = ${noop}`
+    }
+
+    /**
+     * 引用待插入行的列，MySQL 8.0.20 起 VALUES() 已不推荐但仍可用，行别名语法需要 8.0.19 以上
+     */
+    protected compileExcluded(node: ExcludedNode): string {
+        return `VALUES(${this.quoteIdentifier(node.name)})`
+    }
+
+    /**
+     * MySQL的 OFFSET 必须跟在 LIMIT 之后，只有偏移量时使用最大行数表示不限制
+     */
+    protected compileLimit(limit?: number, offset?: number): string {
+        if (!(limit && limit > 0) && offset && offset > 0) {
+            return ` LIMIT 18446744073709551615 OFFSET ${Math.floor(offset)}`
+        }
+        return super.compileLimit(limit, offset)
+    }
+
+    /**
+     * MySQL不支持RETURNING，插入后可以通过 insertId 获取自增主键
+     */
+    protected compileReturning(returning: ExpressionNode[] | undefined): string {
+        if (returning && returning.length > 0) {
+            throw new Error('RETURNING is not supported by MySQL')
+        }
+        return ''
+    }
+}
+
+/**
+ * MySQL SQL生成器
+ * 用于快速生成MySQL SQL语句，支持参数化查询防止SQL注入
+ */
+export class MySQLSqlGenerator<
+    T extends Record<string, any>,
+    TInsert extends Record<string, any> = Partial<T>,
+    TUpdate extends Record<string, any> = Partial<T>,
+    R extends RelationMap = {}
+> extends SqlGenerator<T, TInsert, TUpdate, R> {
+    constructor(table: string, relations?: R) {
+        super(table, new MySQLCompiler(), relations)
+    }
+}
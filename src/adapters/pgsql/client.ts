@@ -1,5 +1,7 @@
 import { Client } from 'pg'
 import { PostgreSQLConfig } from './index'
+import { toPostgreSQLError } from './errors'
+import { RetryOptions, withRetry } from './retry'
 
 /**
  * PostgreSQL客户端管理器
@@ -30,7 +32,12 @@ export class PostgreSQLClient {
         }
 
         if (!this.isConnected) {
-            await this.client.connect()
+            try {
+                await this.client.connect()
+            } catch (error) {
+                this.client = null
+                throw toPostgreSQLError(error)
+            }
             this.isConnected = true
         }
 
@@ -74,24 +81,49 @@ export class PostgreSQLClient {
     /**
      * 执行事务
      * @param callback 事务回调函数
+     * @param options.retry 序列化失败（40001）或死锁（40P01）时重新执行回调，true 表示使用默认重试选项
      * @example
      * await postgresClient.transaction(async (client) => {
      *   await client.query('INSERT INTO users (name) VALUES ($1)', ['John'])
      *   await client.query('UPDATE users SET status = $1 WHERE name = $2', ['active', 'John'])
-     * })
+     * }, { retry: { maxAttempts: 5 } })
      */
-    async transaction<T>(callback: (client: Client) => Promise<T>): Promise<T> {
-        const client = await this.getClient()
-        
-        try {
-            await client.query('BEGIN')
-            const result = await callback(client)
-            await client.query('COMMIT')
-            return result
-        } catch (error) {
-            await client.query('ROLLBACK')
-            throw error
+    async transaction<T>(callback: (client: Client) => Promise<T>, options: { retry?: boolean | RetryOptions } = {}): Promise<T> {
+        const run = async () => {
+            const client = await this.getClient()
+
+            try {
+                await client.query('BEGIN')
+                const result = await callback(client)
+                await client.query('COMMIT')
+                return result
+            } catch (error) {
+                try {
+                    await client.query('ROLLBACK')
+                } catch {
+                    // 回滚失败时连接状态未知，断开该连接，下次使用时重新连接
+                    this.discardClient(client)
+                }
+                throw toPostgreSQLError(error)
+            }
+        }
+
+        if (!options.retry) {
+            return run()
+        }
+        return withRetry(run, options.retry === true ? {} : options.retry)
+    }
+
+    /**
+     * 丢弃状态未知的连接
+     * @private
+     */
+    private discardClient(client: Client): void {
+        if (this.client === client) {
+            this.client = null
+            this.isConnected = false
         }
+        client.end().catch(() => undefined)
     }
 
     /**
@@ -100,8 +132,7 @@ export class PostgreSQLClient {
      * @param params 参数数组
      */
     async query(sql: string, params?: any[]): Promise<any> {
-        const client = await this.getClient()
-        const result = await client.query(sql, params || [])
+        const result = await this.execute(sql, params)
         return result.rows
     }
 
@@ -111,8 +142,7 @@ export class PostgreSQLClient {
      * @param params 参数数组
      */
     async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
-        const client = await this.getClient()
-        const result = await client.query(sql, params || [])
+        const result = await this.execute(sql, params)
         return result.rows[0] || null
     }
 
@@ -122,11 +152,23 @@ export class PostgreSQLClient {
      * @param params 参数数组
      */
     async queryMany<T = any>(sql: string, params?: any[]): Promise<T[]> {
-        const client = await this.getClient()
-        const result = await client.query(sql, params || [])
+        const result = await this.execute(sql, params)
         return result.rows
     }
 
+    /**
+     * 执行SQL，失败时转换为类型化的错误
+     * @private
+     */
+    private async execute(sql: string, params?: any[]) {
+        const client = await this.getClient()
+        try {
+            return await client.query(sql, params || [])
+        } catch (error) {
+            throw toPostgreSQLError(error, { sql, params })
+        }
+    }
+
     /**
      * 关闭连接
      */
@@ -50,7 +50,7 @@ export function validatePostgreSQLConfig(config: any): boolean {
         }
     }
     
-    if (config.port < 1 || config.port > 65535) {
+    if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
         throw new Error('Invalid PostgreSQL port number')
     }
     
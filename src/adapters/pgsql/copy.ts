@@ -0,0 +1,129 @@
+/**
+ * COPY FROM STDIN
+ * 将行编码为 COPY 文本格式，通过 pg-copy-streams 发送，不受参数数量限制
+ */
+
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { ClientBase, defaults } from 'pg'
+import { from as copyFrom } from 'pg-copy-streams'
+
+/**
+ * 文本格式中需要转义的字符
+ * @private
+ */
+const COPY_ESCAPES: Record<string, string> = { '\\': '\\\\', '\n': '\\n', '\r': '\\r', '\t': '\\t' }
+
+/**
+ * 转换为PostgreSQL的文本表示，与 pg 驱动的参数转换规则一致：
+ * 数组转为数组字面量，Buffer 转为 bytea 十六进制格式，其他对象转为 JSON
+ * @private
+ */
+function toText(value: any): string {
+    if (value instanceof Date) {
+        return toTimestamp(value)
+    }
+    if (Buffer.isBuffer(value)) {
+        return `\\x${value.toString('hex')}`
+    }
+    if (Array.isArray(value)) {
+        return toArrayLiteral(value)
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value)
+    }
+    if (typeof value === 'boolean') {
+        return value ? 't' : 'f'
+    }
+    return String(value)
+}
+
+/**
+ * 转换为带时区偏移的时间戳，与 pg 驱动一致：默认使用本地时间，
+ * 设置 defaults.parseInputDatesAsUTC 时使用 UTC，
+ * 保证 timestamp without time zone 列通过 COPY 和 INSERT 写入的值相同
+ * @private
+ */
+function toTimestamp(date: Date): string {
+    const utc = defaults.parseInputDatesAsUTC === true
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+    let year = utc ? date.getUTCFullYear() : date.getFullYear()
+    // 公元前的年份比负数年份小 1
+    const isBCYear = year < 1
+    if (isBCYear) {
+        year = Math.abs(year) + 1
+    }
+    const month = utc ? date.getUTCMonth() : date.getMonth()
+    const day = utc ? date.getUTCDate() : date.getDate()
+    const hours = utc ? date.getUTCHours() : date.getHours()
+    const minutes = utc ? date.getUTCMinutes() : date.getMinutes()
+    const seconds = utc ? date.getUTCSeconds() : date.getSeconds()
+    const milliseconds = utc ? date.getUTCMilliseconds() : date.getMilliseconds()
+    const offset = utc ? 0 : -date.getTimezoneOffset()
+    const sign = offset < 0 ? '-' : '+'
+    const timestamp = `${pad(year, 4)}-${pad(month + 1)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds, 3)}`
+    const zone = `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+    return `${timestamp}${zone}${isBCYear ? ' BC' : ''}`
+}
+
+/**
+ * 生成数组字面量，元素统一加双引号
+ * @private
+ */
+function toArrayLiteral(array: any[]): string {
+    const items = array.map(item => {
+        if (item === null || item === undefined) {
+            return 'NULL'
+        }
+        if (Array.isArray(item)) {
+            return toArrayLiteral(item)
+        }
+        return `"${toText(item).replace(/[\\"]/g, '\\$&')}"`
+    })
+    return `{${items.join(',')}}`
+}
+
+/**
+ * 编码 COPY 文本格式中的一个字段
+ * @param value 字段值，null 和 undefined 编码为 \N
+ * @example
+ * encodeCopyValue(null) // 返回 '\\N'
+ * encodeCopyValue('a\tb') // 返回 'a\\tb'
+ * encodeCopyValue(['x', null]) // 返回 '{"x",NULL}'
+ * encodeCopyValue(Buffer.from([1, 2])) // 返回 '\\\\x0102'
+ */
+export function encodeCopyValue(value: any): string {
+    if (value === null || value === undefined) {
+        return '\\N'
+    }
+    return toText(value).replace(/[\\\n\r\t]/g, char => COPY_ESCAPES[char])
+}
+
+/**
+ * 将行编码为 COPY 文本格式，每 chunkSize 行合并为一段数据
+ * @param rows 要写入的行
+ * @param columns 列名，行中缺少的列写入 NULL
+ * @param chunkSize 每段数据包含的行数
+ */
+export function* encodeCopyRows(rows: Record<string, any>[], columns: string[], chunkSize: number): Generator<string> {
+    for (let start = 0; start < rows.length; start += chunkSize) {
+        yield rows.slice(start, start + chunkSize)
+            .map(row => `${columns.map(col => encodeCopyValue(row[col])).join('\t')}\n`)
+            .join('')
+    }
+}
+
+/**
+ * 在连接上执行 COPY ... FROM STDIN 并返回写入的行数
+ * 数据段按写缓冲区的背压逐段发送，编码出错时通知服务端取消 COPY 并抛出原始错误
+ * @param client 执行 COPY 的连接
+ * @param sql COPY 语句
+ * @param chunks COPY 文本格式的数据段
+ * @example
+ * const rowCount = await copyFromStdin(client, 'COPY "users" ("name") FROM STDIN', ['John\n'])
+ */
+export async function copyFromStdin(client: ClientBase, sql: string, chunks: Iterable<string>): Promise<number> {
+    const copy = client.query(copyFrom(sql))
+    await pipeline(Readable.from(chunks), copy)
+    return copy.rowCount
+}
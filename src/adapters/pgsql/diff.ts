@@ -0,0 +1,403 @@
+/**
+ * PostgreSQL结构差异
+ * 比较两个模式快照，生成将源结构变更为目标结构的DDL
+ */
+
+import { escapeIdentifier } from './utils'
+import { ColumnInfo, ForeignKeySnapshot, IndexSnapshot, SchemaSnapshot, TableSnapshot } from './introspect'
+
+/**
+ * 结构变更类型
+ */
+export type SchemaChangeKind =
+    | 'dropForeignKey'
+    | 'dropIndex'
+    | 'dropPrimaryKey'
+    | 'createTable'
+    | 'addColumn'
+    | 'alterColumnType'
+    | 'alterColumnNullable'
+    | 'alterColumnDefault'
+    | 'dropColumn'
+    | 'dropTable'
+    | 'addPrimaryKey'
+    | 'createIndex'
+    | 'addForeignKey'
+
+/**
+ * 结构变更
+ */
+export interface SchemaChange {
+    kind: SchemaChangeKind
+    /** 变更所在的表 */
+    table: string
+    /** 列、索引或约束名 */
+    name?: string
+    /** DDL语句（不含结尾分号） */
+    sql: string
+}
+
+/**
+ * 变更的执行顺序：先删除外键和索引，再变更表和列，最后创建主键、索引和外键
+ */
+const CHANGE_ORDER: SchemaChangeKind[] = [
+    'dropForeignKey',
+    'dropIndex',
+    'dropPrimaryKey',
+    'createTable',
+    'addColumn',
+    'alterColumnType',
+    'alterColumnNullable',
+    'alterColumnDefault',
+    'dropColumn',
+    'dropTable',
+    'addPrimaryKey',
+    'createIndex',
+    'addForeignKey'
+]
+
+const SERIAL_TYPES: Record<string, string> = {
+    'smallint': 'smallserial',
+    'integer': 'serial',
+    'bigint': 'bigserial'
+}
+
+/**
+ * 转义表名，带模式名的表名按原样拆分
+ * @private
+ */
+function qualify(schema: string, table: string): string {
+    return (table.includes('.') ? table.split('.') : [schema, table]).map(escapeIdentifier).join('.')
+}
+
+/**
+ * 转义列名列表
+ * @private
+ */
+function columnList(columns: string[]): string {
+    return columns.map(escapeIdentifier).join(', ')
+}
+
+/**
+ * 获取列的SQL类型
+ * @param column 列信息
+ * @example
+ * formatColumnType({ data_type: 'character varying', character_maximum_length: 50, ... }) // 返回 'character varying(50)'
+ */
+export function formatColumnType(column: ColumnInfo): string {
+    if (column.domain_name) {
+        return escapeIdentifier(column.domain_name)
+    }
+
+    const udtName = (name: string) => column.udt_schema === 'pg_catalog'
+        ? name
+        : `${escapeIdentifier(column.udt_schema)}.${escapeIdentifier(name)}`
+
+    switch (column.data_type) {
+        case 'USER-DEFINED':
+            return udtName(column.udt_name)
+        case 'ARRAY':
+            // 数组类型的 udt_name 为元素类型名加下划线前缀
+            return `${udtName(column.udt_name.replace(/^_/, ''))}[]`
+        case 'character varying':
+        case 'character':
+            return column.character_maximum_length
+                ? `${column.data_type}(${column.character_maximum_length})`
+                : column.data_type
+        case 'numeric':
+            if (column.numeric_precision === null) return 'numeric'
+            return column.numeric_scale
+                ? `numeric(${column.numeric_precision}, ${column.numeric_scale})`
+                : `numeric(${column.numeric_precision})`
+        default:
+            return column.data_type
+    }
+}
+
+/**
+ * 生成列定义，自增序列默认值转换为 serial 类型
+ * @private
+ */
+function columnDefinition(column: ColumnInfo): string {
+    const type = formatColumnType(column)
+    let sql = escapeIdentifier(column.column_name)
+
+    if (column.column_default?.startsWith('nextval(') && SERIAL_TYPES[type]) {
+        sql += ` ${SERIAL_TYPES[type]}`
+    } else {
+        sql += ` ${type}`
+        if (column.is_identity === 'YES') {
+            sql += ' GENERATED BY DEFAULT AS IDENTITY'
+        } else if (column.column_default !== null) {
+            sql += ` DEFAULT ${column.column_default}`
+        }
+    }
+
+    if (column.is_nullable === 'NO') {
+        sql += ' NOT NULL'
+    }
+    return sql
+}
+
+/**
+ * 生成索引创建语句
+ * @private
+ */
+function createIndex(schema: string, table: string, index: IndexSnapshot): SchemaChange {
+    if (index.constraint) {
+        const sql = `ALTER TABLE ${qualify(schema, table)} ADD CONSTRAINT ${escapeIdentifier(index.name)} UNIQUE (${columnList(index.columns)})`
+        return { kind: 'createIndex', table, name: index.name, sql }
+    }
+
+    const method = index.method && index.method !== 'btree' ? ` USING ${index.method}` : ''
+    // 表达式键已带括号，按原样输出
+    const keys = index.columns.map(key => key.startsWith('(') ? key : escapeIdentifier(key)).join(', ')
+    const where = index.predicate ? ` WHERE ${index.predicate}` : ''
+    const sql = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${escapeIdentifier(index.name)} ON ${qualify(schema, table)}${method} (${keys})${where}`
+    return { kind: 'createIndex', table, name: index.name, sql }
+}
+
+/**
+ * 比较两个索引定义，旧快照中没有索引方法和条件时按 btree 和无条件处理
+ * @private
+ */
+function sameIndex(a: IndexSnapshot, b: IndexSnapshot): boolean {
+    return a.unique === b.unique
+        && a.primary === b.primary
+        && a.constraint === b.constraint
+        && a.columns.join('\0') === b.columns.join('\0')
+        && (a.method ?? 'btree') === (b.method ?? 'btree')
+        && (a.predicate ?? null) === (b.predicate ?? null)
+}
+
+/**
+ * 生成索引删除语句
+ * @private
+ */
+function dropIndex(schema: string, table: string, index: IndexSnapshot): SchemaChange {
+    const sql = index.constraint
+        ? `ALTER TABLE ${qualify(schema, table)} DROP CONSTRAINT ${escapeIdentifier(index.name)}`
+        : `DROP INDEX ${qualify(schema, index.name)}`
+    return { kind: 'dropIndex', table, name: index.name, sql }
+}
+
+/**
+ * 生成外键创建语句
+ * @private
+ */
+function addForeignKey(schema: string, table: string, fk: ForeignKeySnapshot): SchemaChange {
+    let sql = `ALTER TABLE ${qualify(schema, table)} ADD CONSTRAINT ${escapeIdentifier(fk.name)}`
+        + ` FOREIGN KEY (${columnList(fk.columns)})`
+        + ` REFERENCES ${qualify(schema, fk.foreignTable)} (${columnList(fk.foreignColumns)})`
+    if (fk.updateRule !== 'NO ACTION') sql += ` ON UPDATE ${fk.updateRule}`
+    if (fk.deleteRule !== 'NO ACTION') sql += ` ON DELETE ${fk.deleteRule}`
+    return { kind: 'addForeignKey', table, name: fk.name, sql }
+}
+
+/**
+ * 生成外键删除语句
+ * @private
+ */
+function dropForeignKey(schema: string, table: string, fk: ForeignKeySnapshot): SchemaChange {
+    return {
+        kind: 'dropForeignKey',
+        table,
+        name: fk.name,
+        sql: `ALTER TABLE ${qualify(schema, table)} DROP CONSTRAINT ${escapeIdentifier(fk.name)}`
+    }
+}
+
+/**
+ * 生成建表语句
+ * @private
+ */
+function createTable(schema: string, table: TableSnapshot): SchemaChange {
+    const definitions = table.columns.map(columnDefinition)
+    if (table.primaryKey) {
+        definitions.push(`CONSTRAINT ${escapeIdentifier(table.primaryKey.name)} PRIMARY KEY (${columnList(table.primaryKey.columns)})`)
+    }
+    return {
+        kind: 'createTable',
+        table: table.tableName,
+        sql: `CREATE TABLE ${qualify(schema, table.tableName)} (\n    ${definitions.join(',\n    ')}\n)`
+    }
+}
+
+/**
+ * 比较同名列
+ * @private
+ */
+function diffColumn(schema: string, table: string, source: ColumnInfo, target: ColumnInfo): SchemaChange[] {
+    const changes: SchemaChange[] = []
+    const alter = `ALTER TABLE ${qualify(schema, table)} ALTER COLUMN ${escapeIdentifier(target.column_name)}`
+    const name = target.column_name
+
+    const sourceType = formatColumnType(source)
+    const targetType = formatColumnType(target)
+    if (sourceType !== targetType) {
+        changes.push({
+            kind: 'alterColumnType',
+            table,
+            name,
+            sql: `${alter} TYPE ${targetType} USING ${escapeIdentifier(name)}::${targetType}`
+        })
+    }
+
+    if (source.is_nullable !== target.is_nullable) {
+        changes.push({
+            kind: 'alterColumnNullable',
+            table,
+            name,
+            sql: `${alter} ${target.is_nullable === 'NO' ? 'SET' : 'DROP'} NOT NULL`
+        })
+    }
+
+    if (source.is_identity !== target.is_identity) {
+        changes.push({
+            kind: 'alterColumnDefault',
+            table,
+            name,
+            sql: target.is_identity === 'YES' ? `${alter} ADD GENERATED BY DEFAULT AS IDENTITY` : `${alter} DROP IDENTITY`
+        })
+    } else if (source.column_default !== target.column_default && target.is_identity !== 'YES') {
+        changes.push({
+            kind: 'alterColumnDefault',
+            table,
+            name,
+            sql: target.column_default !== null ? `${alter} SET DEFAULT ${target.column_default}` : `${alter} DROP DEFAULT`
+        })
+    }
+
+    return changes
+}
+
+/**
+ * 比较同名表
+ * @private
+ */
+function diffTable(schema: string, source: TableSnapshot, target: TableSnapshot): SchemaChange[] {
+    const table = target.tableName
+    const changes: SchemaChange[] = []
+
+    // 列
+    for (const column of target.columns) {
+        const existing = source.columns.find(c => c.column_name === column.column_name)
+        if (!existing) {
+            changes.push({
+                kind: 'addColumn',
+                table,
+                name: column.column_name,
+                sql: `ALTER TABLE ${qualify(schema, table)} ADD COLUMN ${columnDefinition(column)}`
+            })
+        } else {
+            changes.push(...diffColumn(schema, table, existing, column))
+        }
+    }
+    for (const column of source.columns) {
+        if (!target.columns.some(c => c.column_name === column.column_name)) {
+            changes.push({
+                kind: 'dropColumn',
+                table,
+                name: column.column_name,
+                sql: `ALTER TABLE ${qualify(schema, table)} DROP COLUMN ${escapeIdentifier(column.column_name)}`
+            })
+        }
+    }
+
+    // 主键
+    if (JSON.stringify(source.primaryKey) !== JSON.stringify(target.primaryKey)) {
+        if (source.primaryKey) {
+            changes.push({
+                kind: 'dropPrimaryKey',
+                table,
+                name: source.primaryKey.name,
+                sql: `ALTER TABLE ${qualify(schema, table)} DROP CONSTRAINT ${escapeIdentifier(source.primaryKey.name)}`
+            })
+        }
+        if (target.primaryKey) {
+            changes.push({
+                kind: 'addPrimaryKey',
+                table,
+                name: target.primaryKey.name,
+                sql: `ALTER TABLE ${qualify(schema, table)} ADD CONSTRAINT ${escapeIdentifier(target.primaryKey.name)} PRIMARY KEY (${columnList(target.primaryKey.columns)})`
+            })
+        }
+    }
+
+    // 索引，定义不同时先删除再创建
+    for (const index of target.indexes) {
+        const existing = source.indexes.find(i => i.name === index.name)
+        if (existing && sameIndex(existing, index)) continue
+        if (existing) changes.push(dropIndex(schema, table, existing))
+        changes.push(createIndex(schema, table, index))
+    }
+    for (const index of source.indexes) {
+        if (!target.indexes.some(i => i.name === index.name)) {
+            changes.push(dropIndex(schema, table, index))
+        }
+    }
+
+    // 外键，定义不同时先删除再创建
+    for (const fk of target.foreignKeys) {
+        const existing = source.foreignKeys.find(f => f.name === fk.name)
+        if (existing && JSON.stringify(existing) === JSON.stringify(fk)) continue
+        if (existing) changes.push(dropForeignKey(schema, table, existing))
+        changes.push(addForeignKey(schema, table, fk))
+    }
+    for (const fk of source.foreignKeys) {
+        if (!target.foreignKeys.some(f => f.name === fk.name)) {
+            changes.push(dropForeignKey(schema, table, fk))
+        }
+    }
+
+    return changes
+}
+
+/**
+ * 比较两个模式快照，生成将源结构变更为目标结构的DDL
+ * 只比较普通表，列重命名会被识别为删除旧列并添加新列
+ * @param source 源结构（要变更的数据库）
+ * @param target 目标结构
+ * @returns 按执行顺序排列的变更
+ * @example
+ * const changes = diffSchemas(prodSnapshot, stagingSnapshot)
+ * console.log(changesToSql(changes))
+ */
+export function diffSchemas(source: SchemaSnapshot, target: SchemaSnapshot): SchemaChange[] {
+    const schema = source.schema
+    const changes: SchemaChange[] = []
+
+    // 视图不参与比较
+    const sourceTables = source.tables.filter(table => table.tableType === 'BASE TABLE')
+    const targetTables = target.tables.filter(table => table.tableType === 'BASE TABLE')
+
+    for (const table of targetTables) {
+        const existing = sourceTables.find(t => t.tableName === table.tableName)
+        if (existing) {
+            changes.push(...diffTable(schema, existing, table))
+            continue
+        }
+
+        changes.push(createTable(schema, table))
+        table.indexes.forEach(index => changes.push(createIndex(schema, table.tableName, index)))
+        table.foreignKeys.forEach(fk => changes.push(addForeignKey(schema, table.tableName, fk)))
+    }
+
+    for (const table of sourceTables) {
+        if (targetTables.some(t => t.tableName === table.tableName)) continue
+
+        // 先删除外键，避免被删除的表之间相互引用
+        table.foreignKeys.forEach(fk => changes.push(dropForeignKey(schema, table.tableName, fk)))
+        changes.push({ kind: 'dropTable', table: table.tableName, sql: `DROP TABLE ${qualify(schema, table.tableName)}` })
+    }
+
+    return changes.sort((a, b) => CHANGE_ORDER.indexOf(a.kind) - CHANGE_ORDER.indexOf(b.kind))
+}
+
+/**
+ * 将变更转换为SQL脚本
+ * @param changes 结构变更
+ */
+export function changesToSql(changes: SchemaChange[]): string {
+    return changes.map(change => `${change.sql};\n`).join('')
+}
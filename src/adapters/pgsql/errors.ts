@@ -0,0 +1,240 @@
+/**
+ * PostgreSQL错误
+ * 将 pg 抛出的原始错误按 SQLSTATE 转换为类型化的错误类
+ */
+
+/**
+ * 错误的附加信息
+ */
+export interface PostgreSQLErrorDetails {
+    /** SQLSTATE 错误码 */
+    code?: string
+    /** 原始错误 */
+    cause?: unknown
+    schema?: string
+    table?: string
+    column?: string
+    constraint?: string
+    /** 数据库返回的详细信息，可能包含数据值（如唯一约束冲突的键值） */
+    detail?: string
+    /** 出错的SQL */
+    sql?: string
+    /** 参数数量，参数值不会保存在错误中 */
+    paramCount?: number
+}
+
+/**
+ * 查询上下文
+ */
+export interface QueryContext {
+    sql: string
+    params?: any[]
+}
+
+/**
+ * PostgreSQL错误基类
+ */
+export class PostgreSQLError extends Error {
+    /** SQLSTATE 错误码，非数据库返回的错误为 undefined */
+    readonly code: string | undefined
+    /** 原始错误 */
+    readonly cause: unknown
+    readonly schema: string | undefined
+    readonly table: string | undefined
+    readonly column: string | undefined
+    readonly constraint: string | undefined
+    /** 数据库返回的详细信息，可能包含数据值，记录日志前请注意 */
+    readonly detail: string | undefined
+    readonly sql: string | undefined
+    readonly paramCount: number | undefined
+
+    constructor(message: string, details: PostgreSQLErrorDetails = {}) {
+        super(message)
+        this.name = new.target.name
+        this.code = details.code
+        this.cause = details.cause
+        this.schema = details.schema
+        this.table = details.table
+        this.column = details.column
+        this.constraint = details.constraint
+        this.detail = details.detail
+        this.sql = details.sql
+        this.paramCount = details.paramCount
+    }
+
+    /**
+     * 转换为可安全记录的对象，不包含 detail 和原始错误
+     */
+    toJSON(): Record<string, unknown> {
+        return {
+            name: this.name,
+            message: this.message,
+            code: this.code,
+            schema: this.schema,
+            table: this.table,
+            column: this.column,
+            constraint: this.constraint,
+            sql: this.sql,
+            paramCount: this.paramCount
+        }
+    }
+}
+
+/**
+ * 完整性约束冲突（23xxx）
+ */
+export class IntegrityConstraintError extends PostgreSQLError {}
+
+/**
+ * 唯一约束冲突（23505）
+ */
+export class UniqueViolationError extends IntegrityConstraintError {}
+
+/**
+ * 外键约束冲突（23503）
+ */
+export class ForeignKeyViolationError extends IntegrityConstraintError {}
+
+/**
+ * 非空约束冲突（23502）
+ */
+export class NotNullViolationError extends IntegrityConstraintError {}
+
+/**
+ * 检查约束冲突（23514）
+ */
+export class CheckViolationError extends IntegrityConstraintError {}
+
+/**
+ * 序列化失败（40001），SERIALIZABLE 或 REPEATABLE READ 事务并发冲突时发生，可以重试
+ */
+export class SerializationFailureError extends PostgreSQLError {}
+
+/**
+ * 检测到死锁（40P01），可以重试
+ */
+export class DeadlockDetectedError extends PostgreSQLError {}
+
+/**
+ * 连接失败或连接中断（08xxx、服务器关闭及网络错误）
+ */
+export class ConnectionError extends PostgreSQLError {}
+
+/**
+ * 查询超时（57014，statement_timeout 或客户端 query_timeout）
+ */
+export class QueryTimeoutError extends PostgreSQLError {}
+
+/**
+ * 可以通过重试整个事务解决的 SQLSTATE
+ */
+export const RETRYABLE_SQLSTATES = ['40001', '40P01']
+
+type PostgreSQLErrorClass = new (message: string, details?: PostgreSQLErrorDetails) => PostgreSQLError
+
+/**
+ * SQLSTATE 到错误类的映射
+ */
+const ERROR_CLASSES: Record<string, PostgreSQLErrorClass> = {
+    '23505': UniqueViolationError,
+    '23503': ForeignKeyViolationError,
+    '23502': NotNullViolationError,
+    '23514': CheckViolationError,
+    '40001': SerializationFailureError,
+    '40P01': DeadlockDetectedError,
+    '57014': QueryTimeoutError,
+    '57P01': ConnectionError,
+    '57P02': ConnectionError,
+    '57P03': ConnectionError
+}
+
+/**
+ * 表示连接失败的 Node.js 网络错误码
+ */
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EHOSTUNREACH', 'EPIPE']
+
+/**
+ * 获取错误的 SQLSTATE
+ * Node 的系统错误（带 syscall 或 errno，如 EPERM、EBADF）的错误码也可能是五个大写字母，不作为 SQLSTATE
+ * @private
+ */
+function getSqlState(error: unknown): string | undefined {
+    const source = error as any
+    const code = source?.code
+    if (typeof code !== 'string' || NETWORK_ERROR_CODES.includes(code)) {
+        return undefined
+    }
+    if (typeof source.syscall === 'string' || typeof source.errno === 'number') {
+        return undefined
+    }
+    return /^[0-9A-Z]{5}$/.test(code) ? code : undefined
+}
+
+/**
+ * 确定错误对应的错误类，不是数据库或连接错误时返回 null
+ * @private
+ */
+function resolveErrorClass(error: unknown, code: string | undefined): PostgreSQLErrorClass | null {
+    if (code) {
+        if (ERROR_CLASSES[code]) return ERROR_CLASSES[code]
+        if (code.startsWith('08')) return ConnectionError
+        if (code.startsWith('23')) return IntegrityConstraintError
+        return PostgreSQLError
+    }
+
+    const message = error instanceof Error ? error.message : ''
+    if (NETWORK_ERROR_CODES.includes((error as any)?.code)
+        || /^Connection terminated|timeout exceeded when trying to connect/.test(message)) {
+        return ConnectionError
+    }
+    if (message === 'Query read timeout') {
+        return QueryTimeoutError
+    }
+    return null
+}
+
+/**
+ * 将 pg 的原始错误转换为类型化的错误
+ * 已转换的错误和其他错误原样返回
+ * @param error 原始错误
+ * @param context 出错的SQL和参数，错误中只保存参数数量
+ * @example
+ * try {
+ *   await pool.query(sql, params)
+ * } catch (error) {
+ *   throw toPostgreSQLError(error, { sql, params })
+ * }
+ */
+export function toPostgreSQLError(error: unknown, context?: QueryContext): unknown {
+    if (error instanceof PostgreSQLError) {
+        return error
+    }
+
+    const code = getSqlState(error)
+    const ErrorClass = resolveErrorClass(error, code)
+    if (!ErrorClass) {
+        return error
+    }
+
+    const source = error as Record<string, any>
+    return new ErrorClass(error instanceof Error ? error.message : String(error), {
+        code,
+        cause: error,
+        schema: source.schema,
+        table: source.table,
+        column: source.column,
+        constraint: source.constraint,
+        detail: source.detail,
+        sql: context?.sql,
+        paramCount: context ? (context.params || []).length : undefined
+    })
+}
+
+/**
+ * 判断错误是否可以通过重试事务解决（序列化失败或死锁）
+ * @param error 错误，可以是原始错误或类型化的错误
+ */
+export function isRetryableError(error: unknown): boolean {
+    const code = error instanceof PostgreSQLError ? error.code : getSqlState(error)
+    return code !== undefined && RETRYABLE_SQLSTATES.includes(code)
+}
@@ -3,11 +3,15 @@
  * 提供PostgreSQL数据库的SQL生成和数据库内省功能
  */
 
-import { Pool } from 'pg'
+import { Pool, PoolClient, QueryResult } from 'pg'
 import { PostgreSQLSqlGenerator } from './sql-generator'
+import { CursorPage, CursorPaginateOptions, InsertQueryNode, OffsetPage, PagePaginateOptions, RelationMap, ResultOf, SqlFragment, value, WhereCondition } from '../../core/builder'
 import { PostgreSQLIntrospector } from './introspect'
-import * as fs from 'fs'
-import * as path from 'path'
+import { toPostgreSQLError } from './errors'
+import { RetryOptions, withRetry } from './retry'
+import { generateFromSnapshot } from './snapshot'
+import { copyFromStdin, encodeCopyRows } from './copy'
+import { InterfaceGenOptions, IntrospectOptions, IntrospectResult } from '../../core/interface-gen'
 
 /**
  * PostgreSQL连接配置
@@ -26,11 +30,118 @@ export interface PostgreSQLConfig {
     }
 }
 
+/**
+ * 事务隔离级别
+ */
+export type IsolationLevel = 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE'
+
+/**
+ * 事务选项
+ */
+export interface TransactionOptions {
+    /** 隔离级别，默认使用数据库的设置（通常为 READ COMMITTED） */
+    isolationLevel?: IsolationLevel
+    /** 只读事务 */
+    readOnly?: boolean
+    /** 可延迟事务，仅在 SERIALIZABLE READ ONLY 时生效 */
+    deferrable?: boolean
+    /** 序列化失败（40001）或死锁（40P01）时重新执行整个事务，true 表示使用默认重试选项 */
+    retry?: boolean | RetryOptions
+}
+
+/**
+ * 流式查询选项
+ */
+export interface StreamOptions {
+    /** 每次从服务端游标读取的行数，默认 1000 */
+    batchSize?: number
+}
+
+/**
+ * 批量写入选项
+ */
+export interface BulkInsertOptions {
+    /**
+     * 写入方式，默认为 'copy'
+     * - copy: 使用 COPY FROM STDIN 发送数据，吞吐量最高，不支持 ON CONFLICT 和 RETURNING
+     * - chunked: 在一个事务中分批执行 INSERT，每批的参数数量不超过 PostgreSQL 的上限
+     */
+    method?: 'copy' | 'chunked'
+    /** 每批的行数；copy 默认 1000，chunked 默认为参数上限允许的最大行数，超过上限时自动缩小 */
+    chunkSize?: number
+}
+
+/**
+ * 查询执行器
+ * 适配器和事务都实现该接口，查询构建器通过它执行SQL
+ */
+export interface PostgreSQLExecutor {
+    query(sql: string, params?: any[]): Promise<any>
+    queryOne<T = any>(sql: string, params?: any[]): Promise<T | null>
+    queryMany<T = any>(sql: string, params?: any[]): Promise<T[]>
+    stream<T = any>(sql: string, params?: any[], options?: StreamOptions): AsyncIterable<T>
+    copyFrom(sql: string, chunks: Iterable<string>): Promise<number>
+    transaction<T>(callback: (tx: PostgreSQLTransaction) => Promise<T>): Promise<T>
+}
+
+const ISOLATION_LEVELS: IsolationLevel[] = ['READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE']
+
+/**
+ * 生成开始事务的语句
+ * @private
+ */
+function beginStatement(options: TransactionOptions): string {
+    const modes: string[] = []
+    if (options.isolationLevel) {
+        if (!ISOLATION_LEVELS.includes(options.isolationLevel)) {
+            throw new Error(`Invalid isolation level: ${options.isolationLevel}`)
+        }
+        modes.push(`ISOLATION LEVEL ${options.isolationLevel}`)
+    }
+    if (options.readOnly !== undefined) {
+        modes.push(options.readOnly ? 'READ ONLY' : 'READ WRITE')
+    }
+    if (options.deferrable !== undefined) {
+        modes.push(options.deferrable ? 'DEFERRABLE' : 'NOT DEFERRABLE')
+    }
+    return modes.length > 0 ? `BEGIN ${modes.join(' ')}` : 'BEGIN'
+}
+
+/**
+ * 校验流式查询的批大小
+ * @private
+ */
+function resolveBatchSize(options: StreamOptions): number {
+    const batchSize = options.batchSize ?? 1000
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error('batchSize must be a positive integer')
+    }
+    return batchSize
+}
+
+/**
+ * 单条语句的参数数量上限（协议中参数个数为 16 位整数）
+ * @private
+ */
+const MAX_PARAMETERS = 65535
+
+/**
+ * 收集所有行中出现的列，保持首次出现的顺序
+ * @private
+ */
+function collectColumns(rows: Record<string, any>[]): string[] {
+    const columns = new Set<string>()
+    for (const row of rows) {
+        Object.keys(row).forEach(col => columns.add(col))
+    }
+    return [...columns]
+}
+
 /**
  * PostgreSQL适配器类
  * 提供完整的PostgreSQL数据库操作功能
  */
-export class PostgreSQLAdapter {
+export class PostgreSQLAdapter implements PostgreSQLExecutor {
     private pool: Pool
     private introspector: PostgreSQLIntrospector
 
@@ -57,8 +168,13 @@ export class PostgreSQLAdapter {
      *   .where({ status: 'active' })
      *   .limit(10)
      */
-    createSqlGenerator<T extends Record<string, any>>(table: string): PostgreSQLSqlGenerator<T> {
-        return new PostgreSQLSqlGenerator<T>(table)
+    createSqlGenerator<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, relations?: R): PostgreSQLSqlGenerator<T, TInsert, TUpdate, R> {
+        return new PostgreSQLSqlGenerator<T, TInsert, TUpdate, R>(table, relations)
     }
 
     /**
@@ -69,9 +185,11 @@ export class PostgreSQLAdapter {
      * const result = await adapter.query('SELECT * FROM users WHERE id = $1', [1])
      */
     async query(sql: string, params?: any[]): Promise<any> {
-        const result = await this.pool.query(sql, params || [])
-        // console.log(result,'result')
-        return result
+        try {
+            return await this.pool.query(sql, params || [])
+        } catch (error) {
+            throw toPostgreSQLError(error, { sql, params })
+        }
     }
 
     /**
@@ -80,7 +198,7 @@ export class PostgreSQLAdapter {
      * @param params 参数数组
      */
     async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
-        const result = await this.pool.query(sql, params || [])
+        const result = await this.query(sql, params)
         return result.rows[0] || null
     }
 
@@ -90,10 +208,133 @@ export class PostgreSQLAdapter {
      * @param params 参数数组
      */
     async queryMany<T = any>(sql: string, params?: any[]): Promise<T[]> {
-        const result = await this.pool.query(sql, params || [])
+        const result = await this.query(sql, params)
         return result.rows
     }
 
+    /**
+     * 通过服务端游标流式读取查询结果
+     * 从连接池取出一个专用连接，在事务中声明游标并按批读取，上一批消费完才读取下一批；
+     * 遍历结束、提前 break 或出错时关闭游标并归还连接
+     * @param sql SQL语句，只能是 SELECT 或 VALUES
+     * @param params 参数数组
+     * @param options 批大小
+     * @example
+     * for await (const row of adapter.stream<User>('SELECT * FROM users WHERE status = $1', ['active'], { batchSize: 500 })) {
+     *   await process(row)
+     * }
+     */
+    async *stream<T = any>(sql: string, params?: any[], options: StreamOptions = {}): AsyncGenerator<T, void, undefined> {
+        resolveBatchSize(options)
+        let client: PoolClient
+        try {
+            client = await this.pool.connect()
+        } catch (error) {
+            throw toPostgreSQLError(error)
+        }
+        const tx = new PostgreSQLTransaction(client)
+        let committed = false
+        let brokenConnection: Error | undefined
+
+        try {
+            // 游标只在事务内有效
+            await tx.query('BEGIN')
+            for await (const row of tx.stream<T>(sql, params, options)) {
+                yield row
+            }
+            await tx.query('COMMIT')
+            committed = true
+        } finally {
+            if (!committed) {
+                try {
+                    await client.query('ROLLBACK')
+                } catch (rollbackError) {
+                    brokenConnection = rollbackError instanceof Error ? rollbackError : new Error(String(rollbackError))
+                }
+            }
+            tx.end()
+            client.release(brokenConnection)
+        }
+    }
+
+    /**
+     * 执行 COPY ... FROM STDIN 并返回写入的行数
+     * @param sql COPY 语句
+     * @param chunks COPY 文本格式的数据段
+     * @example
+     * const count = await adapter.copyFrom('COPY "users" ("name") FROM STDIN', ['John\nJane\n'])
+     */
+    async copyFrom(sql: string, chunks: Iterable<string>): Promise<number> {
+        let client: PoolClient
+        try {
+            client = await this.pool.connect()
+        } catch (error) {
+            throw toPostgreSQLError(error)
+        }
+        try {
+            return await copyFromStdin(client, sql, chunks)
+        } catch (error) {
+            throw toPostgreSQLError(error, { sql })
+        } finally {
+            client.release()
+        }
+    }
+
+    /**
+     * 在事务中执行操作
+     * 从连接池取出一个连接，回调正常返回时提交，抛出错误时回滚，最后归还连接
+     * 启用 retry 时，序列化失败或死锁会使整个回调在新事务中重新执行，回调应没有事务外的副作用
+     * @param callback 事务回调，通过 tx 执行的查询都在同一事务中
+     * @param options 隔离级别、访问模式和重试选项
+     * @example
+     * await adapter.transaction(async (tx) => {
+     *   const user = await tx.queryOne<User>('INSERT INTO users (name) VALUES ($1) RETURNING *', ['John'])
+     *   await tx.from<Order>('orders').insert({ user_id: user!.id }).exec()
+     * }, { isolationLevel: 'SERIALIZABLE', retry: { maxAttempts: 5 } })
+     */
+    async transaction<T>(callback: (tx: PostgreSQLTransaction) => Promise<T>, options: TransactionOptions = {}): Promise<T> {
+        const begin = beginStatement(options)
+        if (!options.retry) {
+            return this.runTransaction(begin, callback)
+        }
+        return withRetry(() => this.runTransaction(begin, callback), options.retry === true ? {} : options.retry)
+    }
+
+    /**
+     * 在一个连接上执行一次事务
+     * @private
+     */
+    private async runTransaction<T>(begin: string, callback: (tx: PostgreSQLTransaction) => Promise<T>): Promise<T> {
+        let client: PoolClient
+        try {
+            client = await this.pool.connect()
+        } catch (error) {
+            throw toPostgreSQLError(error)
+        }
+        const tx = new PostgreSQLTransaction(client)
+        // 回滚失败时连接状态未知，归还时销毁该连接
+        let brokenConnection: Error | undefined
+
+        try {
+            await tx.query(begin)
+            try {
+                const result = await callback(tx)
+                await tx.query('COMMIT')
+                return result
+            } catch (error) {
+                try {
+                    await client.query('ROLLBACK')
+                } catch (rollbackError) {
+                    brokenConnection = rollbackError instanceof Error ? rollbackError : new Error(String(rollbackError))
+                }
+                throw error
+            }
+        } finally {
+            tx.end()
+            client.release(brokenConnection)
+        }
+    }
+
     /**
      * 获取数据库内省器
      */
@@ -123,7 +364,7 @@ export class PostgreSQLAdapter {
      * @param tableName 表名
      * @param schema 数据库模式，默认为'public'
      */
-    async generateTableInterface(tableName: string, schema: string = 'public', includeComments: boolean = true) {
+    async generateTableInterface(tableName: string, schema: string = 'public', includeComments: boolean = true, options: InterfaceGenOptions = {}) {
         const columns = await this.introspector.getTableStructure(tableName, schema)
         const primaryKeys = await this.introspector.getPrimaryKeys(tableName, schema)
         const tables = await this.introspector.getAllTables(schema)
@@ -133,12 +374,16 @@ export class PostgreSQLAdapter {
             throw new Error(`Table ${tableName} not found`)
         }
 
+        const enumTypes = await this.introspector.getEnumTypes()
+
         return this.introspector.generateInterface(
             tableName,
             table.table_comment,
             columns,
             primaryKeys,
-            includeComments
+            includeComments,
+            options,
+            enumTypes
         )
     }
 
@@ -159,214 +404,20 @@ export class PostgreSQLAdapter {
     async introspect(
         outputDir: string, 
         schema: string = 'public',
-        options: {
-            /** 是否生成单个文件，默认为false（每个表一个文件） */
-            singleFile?: boolean
-            /** 单个文件的文件名，当singleFile为true时使用 */
-            fileName?: string
-            /** 是否包含表注释，默认为true */
-            includeComments?: boolean
-            /** 是否包含导入语句，默认为true */
-            includeImports?: boolean
-            /** 自定义导入语句 */
-            customImports?: string[]
-        } = {}
-    ): Promise<{
-        success: boolean
-        message: string
-        files: string[]
-        tables: string[]
-    }> {
+        options: IntrospectOptions = {}
+    ): Promise<IntrospectResult> {
         try {
-            // 确保输出目录存在
-            if (!fs.existsSync(outputDir)) {
-                fs.mkdirSync(outputDir, { recursive: true })
-            }
-
-            const {
-                singleFile = false,
-                fileName = 'database-types.ts',
-                includeComments = true,
-                includeImports = true,
-                customImports = []
-            } = options
-
-            // 获取所有表信息
-            const tables = await this.getAllTables(schema)
-            if (tables.length === 0) {
-                return {
-                    success: false,
-                    message: `在模式 '${schema}' 中没有找到任何表`,
-                    files: [],
-                    tables: []
-                }
-            }
-
-            const generatedFiles: string[] = []
-            const tableNames: string[] = []
-
-            if (singleFile) {
-                // 生成单个文件
-                const filePath = path.join(outputDir, fileName)
-                let content = ''
-
-                // 添加文件头注释
-                content += `/**
- * 数据库类型定义
- * 自动生成于 ${new Date().toISOString()}
- * 模式: ${schema}
- * 表数量: ${tables.length}
- */\n\n`
-
-                // 添加导入语句
-                if (includeImports) {
-                    const imports = [
-                        '// 基础类型导入',
-                        'export type { }',
-                        '',
-                        ...customImports
-                    ]
-                    content += imports.join('\n') + '\n\n'
-                }
-
-                // 生成所有表的接口
-                for (const table of tables) {
-                    const interfaceContent = await this.generateTableInterface(table.table_name, schema, includeComments)
-                    content += interfaceContent + '\n\n'
-                    tableNames.push(table.table_name)
-                }
-
-                // 添加导出索引
-                content += `/**
- * 所有表接口的导出索引
- */\n`
-                content += `export const DatabaseTables = {\n`
-                
-                // 使用 Map 来跟踪已使用的键，确保唯一性
-                const usedKeys = new Map<string, number>()
-                tables.forEach(table => {
-                    const interfaceName = this.introspector.tableNameToInterfaceName(table.table_name)
-                    let key = table.table_name
-                    
-                    // 如果键已存在，添加后缀
-                    if (usedKeys.has(key)) {
-                        const count = usedKeys.get(key)! + 1
-                        usedKeys.set(key, count)
-                        key = `${table.table_name}_${count}`
-                    } else {
-                        usedKeys.set(key, 1)
-                    }
-                    
-                    content += `  ${key}: '${interfaceName}',\n`
-                })
-                content += `} as const\n\n`
-
-                content += `export type DatabaseTableNames = typeof DatabaseTables[keyof typeof DatabaseTables]\n`
-
-                // 写入文件
-                fs.writeFileSync(filePath, content, 'utf-8')
-                generatedFiles.push(filePath)
-
-                return {
-                    success: true,
-                    message: `成功生成 ${tables.length} 个表的类型定义到文件: ${filePath}`,
-                    files: generatedFiles,
-                    tables: tableNames
-                }
-
-            } else {
-                // 为每个表生成单独的文件
-                for (const table of tables) {
-                    const interfaceContent = await this.generateTableInterface(table.table_name, schema, includeComments)
-                    const interfaceName = this.introspector.tableNameToInterfaceName(table.table_name)
-                    const fileName = `${interfaceName}.ts`
-                    const filePath = path.join(outputDir, fileName)
-
-                    let content = ''
-
-                    // 添加文件头注释
-                    content += `/**
- * ${table.table_comment || table.table_name} 表类型定义
- * 自动生成于 ${new Date().toISOString()}
- * 模式: ${schema}
- */\n\n`
-
-                    // 添加导入语句
-                    if (includeImports) {
-                        const imports = [
-                            '// 基础类型导入',
-                            'export type { }',
-                            '',
-                            ...customImports
-                        ]
-                        content += imports.join('\n') + '\n'
-                    }
-
-                    content += interfaceContent
-
-                    // 写入文件
-                    fs.writeFileSync(filePath, content, 'utf-8')
-                    generatedFiles.push(filePath)
-                    tableNames.push(table.table_name)
-                }
-
-                // 生成索引文件
-                const indexFilePath = path.join(outputDir, 'index.ts')
-                let indexContent = `/**
- * 数据库类型定义索引
- * 自动生成于 ${new Date().toISOString()}
- * 模式: ${schema}
- */\n\n`
-
-                // 导出所有接口
-                tables.forEach(table => {
-                    const interfaceName = this.introspector.tableNameToInterfaceName(table.table_name)
-                    indexContent += `export * from './${interfaceName}'\n`
-                })
-
-                indexContent += `\n/**
- * 所有表接口的导出索引
- */\n`
-                indexContent += `export const DatabaseTables = {\n`
-                
-                // 使用 Map 来跟踪已使用的键，确保唯一性
-                const usedKeys = new Map<string, number>()
-                tables.forEach(table => {
-                    const interfaceName = this.introspector.tableNameToInterfaceName(table.table_name)
-                    let key = table.table_name
-                    
-                    // 如果键已存在，添加后缀
-                    if (usedKeys.has(key)) {
-                        const count = usedKeys.get(key)! + 1
-                        usedKeys.set(key, count)
-                        key = `${table.table_name}_${count}`
-                    } else {
-                        usedKeys.set(key, 1)
-                    }
-                    
-                    indexContent += `  ${key}: '${interfaceName}',\n`
-                })
-                indexContent += `} as const\n\n`
-
-                indexContent += `export type DatabaseTableNames = typeof DatabaseTables[keyof typeof DatabaseTables]\n`
-
-                fs.writeFileSync(indexFilePath, indexContent, 'utf-8')
-                generatedFiles.push(indexFilePath)
-
-                return {
-                    success: true,
-                    message: `成功生成 ${tables.length} 个表的类型定义文件到目录: ${outputDir}`,
-                    files: generatedFiles,
-                    tables: tableNames
-                }
-            }
+            // 先创建结构快照，与离线从快照生成使用相同的生成逻辑
+            const snapshot = await this.introspector.createSnapshot(schema, options)
+            return generateFromSnapshot(snapshot, outputDir, options)
 
         } catch (error) {
             return {
                 success: false,
                 message: `内省失败: ${error instanceof Error ? error.message : String(error)}`,
                 files: [],
-                tables: []
+                tables: [],
+                error: toPostgreSQLError(error)
             }
         }
     }
@@ -387,33 +438,212 @@ export class PostgreSQLAdapter {
 }
 
 /**
- * 便捷的查询构建器
- * 结合SQL生成器和连接池的查询执行器
+ * 事务
+ * 由 adapter.transaction() 创建，所有查询都在同一个连接上执行
  */
-export class PostgreSQLQueryBuilder<T extends Record<string, any>> extends PostgreSQLSqlGenerator<T> {
-    private adapter: PostgreSQLAdapter
+export class PostgreSQLTransaction implements PostgreSQLExecutor {
+    private client: PoolClient
+    private depth: number
+    private ended: boolean = false
+    private cursors: number = 0
+
+    constructor(client: PoolClient, depth: number = 0) {
+        this.client = client
+        this.depth = depth
+    }
 
-    constructor(table: string, adapter: PostgreSQLAdapter) {
-        super(table)
+    /**
+     * 创建绑定到该事务的查询构建器
+     * @param table 表名
+     * @param relations 表关系，用于 joinRelation() 和 with()
+     * @example
+     * const users = await tx.from<User>('users').where({ status: 'active' }).execMany()
+     */
+    from<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, relations?: R): PostgreSQLQueryBuilder<T, TInsert, TUpdate, R> {
+        return new PostgreSQLQueryBuilder<T, TInsert, TUpdate, R>(table, this, relations)
+    }
+
+    /**
+     * 执行查询
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async query(sql: string, params?: any[]): Promise<any> {
+        if (this.ended) {
+            throw new Error('Transaction has already been committed or rolled back')
+        }
+        try {
+            return await this.client.query(sql, params || [])
+        } catch (error) {
+            throw toPostgreSQLError(error, { sql, params })
+        }
+    }
+
+    /**
+     * 执行查询并返回单条结果
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
+        const result = await this.query(sql, params)
+        return result.rows[0] || null
+    }
+
+    /**
+     * 执行查询并返回结果数组
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async queryMany<T = any>(sql: string, params?: any[]): Promise<T[]> {
+        const result = await this.query(sql, params)
+        return result.rows
+    }
+
+    /**
+     * 在当前事务中执行 COPY ... FROM STDIN 并返回写入的行数
+     * @param sql COPY 语句
+     * @param chunks COPY 文本格式的数据段
+     */
+    async copyFrom(sql: string, chunks: Iterable<string>): Promise<number> {
+        if (this.ended) {
+            throw new Error('Transaction has already been committed or rolled back')
+        }
+        try {
+            return await copyFromStdin(this.client, sql, chunks)
+        } catch (error) {
+            throw toPostgreSQLError(error, { sql })
+        }
+    }
+
+    /**
+     * 在当前事务中通过服务端游标流式读取查询结果
+     * 上一批消费完才读取下一批，遍历结束或提前 break 时关闭游标
+     * @param sql SQL语句，只能是 SELECT 或 VALUES
+     * @param params 参数数组
+     * @param options 批大小
+     */
+    async *stream<T = any>(sql: string, params?: any[], options: StreamOptions = {}): AsyncGenerator<T, void, undefined> {
+        const batchSize = resolveBatchSize(options)
+        // 嵌套事务共用连接，名称中带上层级避免冲突
+        const cursor = `typosql_cursor_${this.depth}_${++this.cursors}`
+        await this.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${sql}`, params)
+
+        let failed = false
+        try {
+            while (true) {
+                const result = await this.query(`FETCH FORWARD ${batchSize} FROM ${cursor}`)
+                for (const row of result.rows) {
+                    yield row
+                }
+                if (result.rows.length < batchSize) break
+            }
+        } catch (error) {
+            failed = true
+            throw error
+        } finally {
+            // 读取出错时事务已中止，游标随事务回滚释放
+            if (!failed) {
+                await this.query(`CLOSE ${cursor}`)
+            }
+        }
+    }
+
+    /**
+     * 在保存点中执行嵌套事务
+     * 回调抛出错误时只回滚到保存点，外层事务可以捕获错误后继续
+     * @param callback 嵌套事务回调
+     * @example
+     * await adapter.transaction(async (tx) => {
+     *   await tx.from<User>('users').insert({ name: 'John' }).exec()
+     *   await tx.transaction(async (nested) => {
+     *     await nested.from<Log>('logs').insert({ message: 'created' }).exec()
+     *   }).catch(() => {})  // 日志写入失败不影响用户创建
+     * })
+     */
+    async transaction<T>(callback: (tx: PostgreSQLTransaction) => Promise<T>): Promise<T> {
+        const savepoint = `typosql_sp_${this.depth + 1}`
+        const nested = new PostgreSQLTransaction(this.client, this.depth + 1)
+
+        await this.query(`SAVEPOINT ${savepoint}`)
+        try {
+            const result = await callback(nested)
+            await this.query(`RELEASE SAVEPOINT ${savepoint}`)
+            return result
+        } catch (error) {
+            await this.query(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+            throw error
+        } finally {
+            nested.end()
+        }
+    }
+
+    /**
+     * 标记事务已结束，之后的查询会抛出错误
+     * @internal
+     */
+    end(): void {
+        this.ended = true
+    }
+}
+
+/**
+ * 便捷的查询构建器
+ * 结合SQL生成器和查询执行器（适配器或事务）
+ */
+export class PostgreSQLQueryBuilder<
+    T extends Record<string, any>,
+    TInsert extends Record<string, any> = Partial<T>,
+    TUpdate extends Record<string, any> = Partial<T>,
+    R extends RelationMap = {}
+> extends PostgreSQLSqlGenerator<T, TInsert, TUpdate, R> {
+    private adapter: PostgreSQLExecutor
+
+    constructor(table: string, adapter: PostgreSQLExecutor, relations?: R) {
+        super(table, relations)
         this.adapter = adapter
     }
 
     /**
      * 创建新的查询实例
      * @param table 表名
-     * @param adapter 数据库适配器
+     * @param adapter 数据库适配器或事务
+     * @param relations 表关系（如内省生成的 UsersRelations），用于 joinRelation() 和 with()
+     * @example
+     * // 使用内省生成的行、插入、更新类型
+     * const users = PostgreSQLQueryBuilder.from<Users, NewUsers, UsersPatch>('users', adapter)
+     * await users.insert({ username: 'john' }).exec()
      */
-    static from<T extends Record<string, any>>(table: string, adapter: PostgreSQLAdapter): PostgreSQLQueryBuilder<T> {
-        return new PostgreSQLQueryBuilder<T>(table, adapter)
+    static from<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, adapter: PostgreSQLExecutor, relations?: R): PostgreSQLQueryBuilder<T, TInsert, TUpdate, R> {
+        return new PostgreSQLQueryBuilder<T, TInsert, TUpdate, R>(table, adapter, relations)
+    }
+
+    /**
+     * 添加HAVING条件，键为查询结果中的列或 select() 中的别名
+     * @example
+     * await orders.select('user_id', { total: sum('amount') })
+     *   .groupBy('user_id')
+     *   .having({ total: { $gte: 1000 } })
+     *   .execMany()
+     */
+    having(condition: string | SqlFragment | WhereCondition<ResultOf<this, T>>): this {
+        return super.having(condition as WhereCondition<Record<string, any>>)
     }
 
     /**
      * 执行查询并返回结果
      */
-    async exec(): Promise<any> {
+    async exec(): Promise<QueryResult<ResultOf<this, T>>> {
         const { sql, params } = this.getSqlWithParams()
-        console.log(sql,'sql')
-        console.log(params,'params')
         const result = await this.adapter.query(sql, params)
         // 执行后重置查询状态，但保留表名
         this.clear()
@@ -423,9 +653,9 @@ export class PostgreSQLQueryBuilder<T extends Record<string, any>> extends Postg
     /**
      * 执行查询并返回单条结果
      */
-    async execOne(): Promise<T | null> {
+    async execOne(): Promise<ResultOf<this, T> | null> {
         const { sql, params } = this.getSqlWithParams()
-        const result = await this.adapter.queryOne<T>(sql, params)
+        const result = await this.adapter.queryOne<ResultOf<this, T>>(sql, params)
         // 执行后重置查询状态，但保留表名
         this.clear()
         return result
@@ -434,26 +664,104 @@ export class PostgreSQLQueryBuilder<T extends Record<string, any>> extends Postg
     /**
      * 执行查询并返回结果数组
      */
-    async execMany(): Promise<T[]> {
+    async execMany(): Promise<ResultOf<this, T>[]> {
         const { sql, params } = this.getSqlWithParams()
-        const result = await this.adapter.queryMany<T>(sql, params)
+        const result = await this.adapter.queryMany<ResultOf<this, T>>(sql, params)
         // 执行后重置查询状态，但保留表名
         this.clear()
         return result
     }
 
+    /**
+     * 批量写入并返回写入的行数
+     * 适用于 insertMany 参数过多或速度不够的大批量数据，不受单条语句参数数量的限制；
+     * 各行缺少的列写入 NULL，而不是列的默认值
+     * @param rows 要写入的行
+     * @param options 写入方式和每批行数
+     * @example
+     * const count = await events.bulkInsert(rows)
+     * const count = await events.bulkInsert(rows, { method: 'chunked', chunkSize: 5000 })
+     */
+    async bulkInsert(rows: TInsert[], options: BulkInsertOptions = {}): Promise<number> {
+        const { method = 'copy', chunkSize } = options
+        if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize < 1)) {
+            throw new Error('chunkSize must be a positive integer')
+        }
+        if (rows.length === 0) {
+            return 0
+        }
+        const columns = collectColumns(rows)
+        if (columns.length === 0) {
+            throw new Error('No columns to insert')
+        }
+
+        if (method === 'copy') {
+            const target = `${this.compiler.quoteName(this._from)} (${columns.map(col => this.compiler.quoteIdentifier(col)).join(', ')})`
+            return this.adapter.copyFrom(`COPY ${target} FROM STDIN`, encodeCopyRows(rows, columns, chunkSize ?? 1000))
+        }
+        if (method !== 'chunked') {
+            throw new Error(`Unsupported bulk insert method: ${method}`)
+        }
+
+        const size = Math.max(1, Math.min(chunkSize ?? Infinity, Math.floor(MAX_PARAMETERS / columns.length)))
+        // 任何一批失败时整体回滚
+        return this.adapter.transaction(async (tx) => {
+            let inserted = 0
+            for (let start = 0; start < rows.length; start += size) {
+                const query: InsertQueryNode = {
+                    type: 'INSERT',
+                    table: this._from,
+                    columns,
+                    rows: rows.slice(start, start + size).map(row => columns.map(col => value(row[col])))
+                }
+                const { sql, params } = this.compiler.compile(query)
+                const result = await tx.query(sql, params)
+                inserted += result.rowCount
+            }
+            return inserted
+        })
+    }
+
+    /**
+     * 通过服务端游标流式读取查询结果
+     * 适用于无法一次性载入内存的大结果集；在适配器上执行时占用一个专用连接直到遍历结束
+     * @param options 批大小，默认 1000
+     * @example
+     * for await (const order of orders.where({ status: 'paid' }).orderBy('id').stream({ batchSize: 500 })) {
+     *   await exportRow(order)
+     * }
+     */
+    stream(options: StreamOptions = {}): AsyncIterable<ResultOf<this, T>> {
+        if (this._type !== 'SELECT') {
+            throw new Error('stream() only supports SELECT queries')
+        }
+        const { sql, params } = this.getSqlWithParams()
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return this.adapter.stream<ResultOf<this, T>>(sql, params, options)
+    }
+
+    /**
+     * 分页查询
+     * 传入 first 时使用键集分页，按排序列的值定位下一页，插入新行不会导致重复或遗漏；
+     * 传入 page / pageSize 时使用页码分页，行和总行数在同一次查询中返回
+     * @example
+     * const first = await orders.where({ status: 'paid' }).paginate({ first: 20, orderBy: [['created_at', 'DESC'], 'id'] })
+     * const next = await orders.where({ status: 'paid' }).paginate({ first: 20, orderBy: [['created_at', 'DESC'], 'id'], cursor: first.nextCursor })
+     *
+     * const { items, total, pages } = await orders.paginate({ page: 3, pageSize: 20 })
+     */
+    paginate(options: CursorPaginateOptions<T>): Promise<CursorPage<ResultOf<this, T>>>
+    paginate(options: PagePaginateOptions): Promise<OffsetPage<ResultOf<this, T>>>
+    paginate(options: CursorPaginateOptions<T> | PagePaginateOptions): Promise<CursorPage<ResultOf<this, T>> | OffsetPage<ResultOf<this, T>>> {
+        return this.executePaginate<ResultOf<this, T>>(options, (sql, params) => this.adapter.queryMany(sql, params))
+    }
+
     /**
      * 执行查询并返回结果数量
      */
     async execCount(): Promise<number> {
-        const countSql = new PostgreSQLSqlGenerator<T>(this['_from'])
-            .select('COUNT(*) as count')
-        
-        // 复制where条件
-        countSql['_where'] = [...this['_where']]
-        countSql['_params'] = [...this['_params']]
-
-        const { sql, params } = countSql.getSqlWithParams()
+        const { sql, params } = this.compiler.compile(this.buildCountQuery())
         const result = await this.adapter.query(sql, params)
         return parseInt(result.rows[0].count)
     }
@@ -464,7 +772,45 @@ export type {
     PostgreSQLIntrospector,
     TableInfo,
     ColumnInfo,
+    EnumTypeInfo,
     ForeignKeyInfo,
+    ForeignKeyConstraintInfo,
     IndexInfo,
+    IndexSnapshot,
+    ForeignKeySnapshot,
+    TableSnapshot,
+    SchemaSnapshot,
     GeneratedInterface
-} from './introspect'
\ No newline at end of file
+} from './introspect'
+
+// 参数化SQL片段
+export { sql, SqlFragment } from '../../core/builder'
+
+// 聚合函数
+export { count, countDistinct, sum, avg, min, max, AggregateFragment } from '../../core/builder'
+
+// 错误与重试
+export {
+    PostgreSQLError,
+    IntegrityConstraintError,
+    UniqueViolationError,
+    ForeignKeyViolationError,
+    NotNullViolationError,
+    CheckViolationError,
+    SerializationFailureError,
+    DeadlockDetectedError,
+    ConnectionError,
+    QueryTimeoutError,
+    RETRYABLE_SQLSTATES,
+    toPostgreSQLError,
+    isRetryableError
+} from './errors'
+export type { PostgreSQLErrorDetails, QueryContext } from './errors'
+export { withRetry, computeRetryDelay } from './retry'
+export type { RetryOptions } from './retry'
+
+// 结构快照与差异
+export { SNAPSHOT_VERSION } from './introspect'
+export { writeSnapshotFile, readSnapshotFile, generateFromSnapshot } from './snapshot'
+export { diffSchemas, changesToSql, formatColumnType } from './diff'
+export type { SchemaChange, SchemaChangeKind } from './diff'
\ No newline at end of file
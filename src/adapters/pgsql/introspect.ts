@@ -1,16 +1,60 @@
 import { Pool, PoolClient } from 'pg'
+import {
+    buildTableRelations,
+    findTypeOverride,
+    ForeignKeyDefinition,
+    generateInterface,
+    generateTypeAlias,
+    InterfaceColumn,
+    InterfaceGenOptions,
+    NamingOptions,
+    TableRelation,
+    tableNameToInterfaceName,
+    toStringLiteralUnion
+} from '../../core/interface-gen'
+import { matchTableFilters } from '../../utils'
+
+/**
+ * 将 pg_constraint 中的外键动作代码转换为规则名称
+ */
+const FK_ACTION_SQL = (column: string) => `CASE ${column}
+                    WHEN 'r' THEN 'RESTRICT'
+                    WHEN 'c' THEN 'CASCADE'
+                    WHEN 'n' THEN 'SET NULL'
+                    WHEN 'd' THEN 'SET DEFAULT'
+                    ELSE 'NO ACTION'
+                END`
+
+/**
+ * 结构快照格式版本，快照结构发生不兼容变化时递增
+ */
+export const SNAPSHOT_VERSION = 1
 
 /**
  * PostgreSQL数据库内省器
  * 用于从数据库结构自动生成TypeScript接口
  */
 export class PostgreSQLIntrospector {
-    private pool: Pool
+    private pool: Pool | null
 
-    constructor(pool: Pool) {
+    /**
+     * @param pool 连接池；只从快照生成类型时可以省略
+     */
+    constructor(pool: Pool | null = null) {
         this.pool = pool
     }
 
+    /**
+     * 获取连接池，没有连接池时抛出错误
+     * @private
+     */
+    private get db(): Pool {
+        if (!this.pool) {
+            throw new Error('PostgreSQL introspector has no database connection')
+        }
+        return this.pool
+    }
+
     /**
      * PostgreSQL类型到TypeScript类型的映射
      */
@@ -47,6 +91,7 @@ export class PostgreSQLIntrospector {
         const query = `
             SELECT 
                 t.table_name,
+                t.table_type,
                 MAX(d.description) as table_comment
             FROM information_schema.tables t
             LEFT JOIN pg_description d ON d.objoid = (
@@ -56,10 +101,10 @@ export class PostgreSQLIntrospector {
                 AND c.relnamespace = (SELECT oid FROM pg_namespace WHERE nspname = $1)
             )
             WHERE t.table_schema = $1
-            GROUP BY t.table_name
+            GROUP BY t.table_name, t.table_type
             ORDER BY t.table_name
         `
-        const result = await this.pool.query(query, [schema])
+        const result = await this.db.query(query, [schema])
         // console.log(result.rows,'getAllTables')
         return result.rows
     }
@@ -76,7 +121,10 @@ export class PostgreSQLIntrospector {
                 c.data_type,
                 c.is_nullable,
                 c.column_default,
+                c.is_identity,
+                c.udt_schema,
                 c.udt_name,
+                c.domain_name,
                 c.character_maximum_length,
                 c.numeric_precision,
                 c.numeric_scale,
@@ -92,7 +140,28 @@ export class PostgreSQLIntrospector {
             AND c.table_name = $1
             ORDER BY c.ordinal_position
         `
-        const result = await this.pool.query(query, [tableName, schema])
+        const result = await this.db.query(query, [tableName, schema])
+        return result.rows
+    }
+
+    /**
+     * 获取所有枚举类型
+     * 标签按定义顺序返回
+     */
+    async getEnumTypes(): Promise<EnumTypeInfo[]> {
+        const query = `
+            SELECT 
+                n.nspname as type_schema,
+                t.typname as type_name,
+                obj_description(t.oid, 'pg_type') as type_comment,
+                array_agg(e.enumlabel::text ORDER BY e.enumsortorder) as labels
+            FROM pg_type t
+            JOIN pg_enum e ON e.enumtypid = t.oid
+            JOIN pg_namespace n ON n.oid = t.typnamespace
+            GROUP BY n.nspname, t.typname, t.oid
+            ORDER BY n.nspname, t.typname
+        `
+        const result = await this.db.query(query)
         return result.rows
     }
 
@@ -114,7 +183,7 @@ export class PostgreSQLIntrospector {
                 AND tc.table_schema = $2
             ORDER BY kcu.ordinal_position
         `
-        const result = await this.pool.query(query, [tableName, schema])
+        const result = await this.db.query(query, [tableName, schema])
         return result.rows.map(row => row.column_name)
     }
 
@@ -144,10 +213,62 @@ export class PostgreSQLIntrospector {
                 AND tc.table_name = $1
                 AND tc.table_schema = $2
         `
-        const result = await this.pool.query(query, [tableName, schema])
+        const result = await this.db.query(query, [tableName, schema])
         return result.rows
     }
 
+    /**
+     * 获取模式中所有的外键约束
+     * 每个约束一行，复合外键的列按约束定义顺序排列
+     * @param schema 数据库模式，默认为'public'
+     */
+    async getForeignKeyConstraints(schema: string = 'public'): Promise<ForeignKeyConstraintInfo[]> {
+        const query = `
+            SELECT 
+                con.conname as constraint_name,
+                src.relname as table_name,
+                tn.nspname as foreign_table_schema,
+                tgt.relname as foreign_table_name,
+                array_agg(sa.attname::text ORDER BY k.ord) as columns,
+                array_agg(ta.attname::text ORDER BY k.ord) as foreign_columns,
+                ${FK_ACTION_SQL('con.confupdtype')} as update_rule,
+                ${FK_ACTION_SQL('con.confdeltype')} as delete_rule
+            FROM pg_constraint con
+            JOIN pg_namespace n ON n.oid = con.connamespace
+            JOIN pg_class src ON src.oid = con.conrelid
+            JOIN pg_class tgt ON tgt.oid = con.confrelid
+            JOIN pg_namespace tn ON tn.oid = tgt.relnamespace
+            CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(attnum, foreign_attnum, ord)
+            JOIN pg_attribute sa ON sa.attrelid = con.conrelid AND sa.attnum = k.attnum
+            JOIN pg_attribute ta ON ta.attrelid = con.confrelid AND ta.attnum = k.foreign_attnum
+            WHERE con.contype = 'f'
+                AND n.nspname = $1
+            GROUP BY con.conname, src.relname, tn.nspname, tgt.relname, con.confupdtype, con.confdeltype
+            ORDER BY src.relname, con.conname
+        `
+        const result = await this.db.query(query, [schema])
+        return result.rows
+    }
+
+    /**
+     * 获取表的关系
+     * @param tableName 表名
+     * @param constraints 模式中所有的外键约束
+     * @param schema 数据库模式，默认为'public'
+     */
+    getRelations(tableName: string, constraints: ForeignKeyConstraintInfo[], schema: string = 'public'): TableRelation[] {
+        const foreignKeys: ForeignKeyDefinition[] = constraints.map(constraint => ({
+            table: constraint.table_name,
+            columns: constraint.columns,
+            // 引用其他模式的表时使用限定名
+            foreignTable: constraint.foreign_table_schema === schema
+                ? constraint.foreign_table_name
+                : `${constraint.foreign_table_schema}.${constraint.foreign_table_name}`,
+            foreignColumns: constraint.foreign_columns
+        }))
+        return buildTableRelations(tableName, foreignKeys)
+    }
+
     /**
      * 获取表的索引信息
      * @param tableName 表名
@@ -157,108 +278,250 @@ export class PostgreSQLIntrospector {
         const query = `
             SELECT 
                 i.relname as index_name,
-                a.attname as column_name,
+                CASE WHEN k.attnum = 0
+                    THEN '(' || pg_get_indexdef(ix.indexrelid, k.position::int, true) || ')'
+                    ELSE a.attname::text
+                END as column_name,
                 ix.indisunique as is_unique,
-                ix.indisprimary as is_primary
+                ix.indisprimary as is_primary,
+                EXISTS (
+                    SELECT 1 FROM pg_constraint con WHERE con.conindid = i.oid AND con.contype = 'u'
+                ) as is_constraint,
+                am.amname as index_method,
+                pg_get_expr(ix.indpred, ix.indrelid, true) as index_predicate
             FROM pg_class t
             JOIN pg_index ix ON t.oid = ix.indrelid
             JOIN pg_class i ON ix.indexrelid = i.oid
-            JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+            JOIN pg_am am ON am.oid = i.relam
             JOIN pg_namespace n ON n.oid = t.relnamespace
+            CROSS JOIN LATERAL unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+            LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
             WHERE t.relname = $1
                 AND n.nspname = $2
-            ORDER BY i.relname, a.attnum
+            ORDER BY i.relname, k.position
         `
-        const result = await this.pool.query(query, [tableName, schema])
+        const result = await this.db.query(query, [tableName, schema])
         return result.rows
     }
 
+    /**
+     * 创建模式的结构快照，包含表、视图、列、主键、索引、外键、枚举类型和注释
+     * 快照可以保存为JSON文件，用于离线生成类型或比较结构差异
+     * @param schema 数据库模式，默认为'public'
+     * @param filters 表过滤（支持 * 和 ? 通配符）
+     * @example
+     * const prod = await prodIntrospector.createSnapshot('public')
+     * const staging = await stagingIntrospector.createSnapshot('public')
+     * const changes = diffSchemas(prod, staging)
+     */
+    async createSnapshot(
+        schema: string = 'public',
+        filters: { include?: string[], exclude?: string[] } = {}
+    ): Promise<SchemaSnapshot> {
+        const tables = (await this.getAllTables(schema))
+            .filter(table => matchTableFilters(table.table_name, filters))
+        const constraints = await this.getForeignKeyConstraints(schema)
+        const enumTypes = await this.getEnumTypes()
+
+        const snapshots: TableSnapshot[] = []
+        const usedEnumTypes: EnumTypeInfo[] = []
+        for (const table of tables) {
+            const columns = await this.getTableStructure(table.table_name, schema)
+            const primaryKeys = await this.getPrimaryKeys(table.table_name, schema)
+            const indexRows = await this.getIndexes(table.table_name, schema)
+
+            // 索引信息每列一行，按索引合并
+            const indexes: IndexSnapshot[] = []
+            for (const row of indexRows) {
+                const index = indexes.find(i => i.name === row.index_name)
+                if (index) {
+                    index.columns.push(row.column_name)
+                } else {
+                    indexes.push({
+                        name: row.index_name,
+                        columns: [row.column_name],
+                        unique: row.is_unique,
+                        primary: row.is_primary,
+                        constraint: row.is_constraint,
+                        method: row.index_method,
+                        predicate: row.index_predicate
+                    })
+                }
+            }
+            const primaryIndex = indexes.find(index => index.primary)
+
+            snapshots.push({
+                tableName: table.table_name,
+                tableType: table.table_type,
+                tableComment: table.table_comment,
+                columns,
+                primaryKey: primaryKeys.length > 0
+                    ? { name: primaryIndex ? primaryIndex.name : `${table.table_name}_pkey`, columns: primaryKeys }
+                    : null,
+                indexes: indexes.filter(index => !index.primary),
+                foreignKeys: constraints
+                    .filter(constraint => constraint.table_name === table.table_name)
+                    .map(constraint => ({
+                        name: constraint.constraint_name,
+                        columns: constraint.columns,
+                        foreignTable: constraint.foreign_table_schema === schema
+                            ? constraint.foreign_table_name
+                            : `${constraint.foreign_table_schema}.${constraint.foreign_table_name}`,
+                        foreignColumns: constraint.foreign_columns,
+                        updateRule: constraint.update_rule,
+                        deleteRule: constraint.delete_rule
+                    }))
+            })
+
+            const references = this.getEnumReferences(table.table_name, columns, enumTypes)
+            usedEnumTypes.push(...references.filter(enumType => !usedEnumTypes.includes(enumType)))
+        }
+
+        // 只保存本模式定义的或被表引用的枚举类型
+        const enums = enumTypes.filter(enumType => enumType.type_schema === schema || usedEnumTypes.includes(enumType))
+
+        return { version: SNAPSHOT_VERSION, dialect: 'pgsql', schema, enums, tables: snapshots }
+    }
+
     /**
      * 生成TypeScript接口定义
      * @param tableName 表名
      * @param tableComment 表注释
      * @param columns 列信息
      * @param primaryKeys 主键列表
+     * @param options 命名规则和类型覆盖
+     * @param enumTypes 枚举类型，枚举列使用对应的联合类型名
      */
     generateInterface(
         tableName: string, 
         tableComment: string | null, 
         columns: ColumnInfo[], 
         primaryKeys: string[] = [],
-        includeComments: boolean = true
+        includeComments: boolean = true,
+        options: InterfaceGenOptions = {},
+        enumTypes: EnumTypeInfo[] = []
     ): string {
-        const interfaceName = this.tableNameToInterfaceName(tableName)
-        
-        let interfaceContent = ''
-        
-        // 添加表注释
-        if (includeComments && tableComment) {
-            interfaceContent += `/**\n * ${tableComment}\n */\n`
-        }
-        
-        interfaceContent += `export interface ${interfaceName} {\n`
-
-        columns.forEach(column => {
-            const tsType = this.getTypeScriptType(column)
-            const isNullable = column.is_nullable === 'YES'
-            const propertyName = column.column_name
-            const hasDefault = column.column_default !== null
-            const isPrimaryKey = primaryKeys.includes(propertyName)
-            
-            // 构建类型字符串
-            let typeStr = tsType
-            if (isNullable) {
-                typeStr = `${tsType} | null`
-            }
-            
-            // 添加列注释
-            let comment = ''
-            if (includeComments) {
-                if (column.column_comment) {
-                    comment += column.column_comment
-                }
-                if (hasDefault) {
-                    if (comment) comment += '\n'
-                    comment += `默认值: ${column.column_default}`
-                }
-                if (isNullable) {
-                    if (comment) comment += '\n'
-                    comment += '可为空'
-                }
-                if (isPrimaryKey) {
-                    if (comment) comment += '\n'
-                    comment += '主键'
-                }
-            }
-            
-            if (comment) {
-                interfaceContent += `    /** ${comment} */\n`
-            }
-            
-            interfaceContent += `    ${propertyName}${isNullable ? '?' : ''}: ${typeStr};\n`
-        })
+        const interfaceColumns: InterfaceColumn[] = columns.map(column => ({
+            name: column.column_name,
+            type: this.findTypeOverride(tableName, column, options)
+                ?? this.getTypeScriptType(column, enumTypes),
+            nullable: column.is_nullable === 'YES',
+            defaultValue: column.column_default,
+            primaryKey: primaryKeys.includes(column.column_name),
+            hasDefault: column.column_default !== null || column.is_identity === 'YES',
+            comment: column.column_comment
+        }))
 
-        interfaceContent += '}\n'
-        return interfaceContent
+        return generateInterface(tableName, tableComment, interfaceColumns, includeComments, options)
+    }
+
+    /**
+     * 生成枚举类型的联合类型定义
+     * @param enumType 枚举类型
+     * @param includeComments 是否包含注释
+     * @example
+     * // export type OrderStatus = 'pending' | 'paid' | 'shipped'
+     * introspector.generateEnumType(enumType)
+     */
+    generateEnumType(enumType: EnumTypeInfo, includeComments: boolean = true): string {
+        return generateTypeAlias(
+            this.enumTypeName(enumType),
+            toStringLiteralUnion(enumType.labels),
+            includeComments ? enumType.type_comment : null
+        )
+    }
+
+    /**
+     * 获取枚举类型对应的TypeScript类型名
+     * @param enumType 枚举类型
+     */
+    enumTypeName(enumType: EnumTypeInfo): string {
+        return tableNameToInterfaceName(enumType.type_name)
+    }
+
+    /**
+     * 获取表中引用的枚举类型（已配置类型覆盖的列除外）
+     * @param tableName 表名
+     * @param columns 列信息
+     * @param enumTypes 枚举类型
+     * @param options 类型覆盖
+     */
+    getEnumReferences(
+        tableName: string,
+        columns: ColumnInfo[],
+        enumTypes: EnumTypeInfo[],
+        options: InterfaceGenOptions = {}
+    ): EnumTypeInfo[] {
+        const references: EnumTypeInfo[] = []
+        for (const column of columns) {
+            if (this.findTypeOverride(tableName, column, options) !== undefined) continue
+
+            const enumType = this.findEnumType(column, enumTypes)
+            if (enumType && !references.includes(enumType)) {
+                references.push(enumType)
+            }
+        }
+        return references
     }
 
     /**
      * 将表名转换为接口名
      * @param tableName 表名
+     * @param naming 命名规则
+     */
+    tableNameToInterfaceName(tableName: string, naming?: NamingOptions): string {
+        return tableNameToInterfaceName(tableName, naming)
+    }
+
+    /**
+     * 查找列的类型覆盖，域类型列也可以按域名覆盖
+     * @param tableName 表名
+     * @param column 列信息
+     * @param options 类型覆盖
+     */
+    private findTypeOverride(tableName: string, column: ColumnInfo, options: InterfaceGenOptions): string | undefined {
+        return findTypeOverride(
+            options.typeOverrides,
+            tableName,
+            column.column_name,
+            [column.domain_name, column.data_type, column.udt_name]
+        )
+    }
+
+    /**
+     * 查找列对应的枚举类型（包括枚举数组及基于枚举的域）
+     * @param column 列信息
+     * @param enumTypes 枚举类型
      */
-    tableNameToInterfaceName(tableName: string): string {
-        return tableName
-            .split('_')
-            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-            .join('')
+    private findEnumType(column: ColumnInfo, enumTypes: EnumTypeInfo[]): EnumTypeInfo | undefined {
+        let typeName: string
+        if (column.data_type === 'USER-DEFINED') {
+            typeName = column.udt_name
+        } else if (column.data_type === 'ARRAY') {
+            // 数组类型的 udt_name 为元素类型名加下划线前缀
+            typeName = column.udt_name.replace(/^_/, '')
+        } else {
+            return undefined
+        }
+
+        return enumTypes.find(enumType => enumType.type_name === typeName && enumType.type_schema === column.udt_schema)
     }
 
     /**
      * 获取TypeScript类型
+     * 域类型列的 data_type 和 udt_name 为域的基础类型，因此按基础类型映射
      * @param column 列信息
+     * @param enumTypes 枚举类型
      */
-    private getTypeScriptType(column: ColumnInfo): string {
+    private getTypeScriptType(column: ColumnInfo, enumTypes: EnumTypeInfo[] = []): string {
         const dataType = column.data_type.toLowerCase()
+
+        // 检查枚举类型
+        const enumType = this.findEnumType(column, enumTypes)
+        if (enumType) {
+            const typeName = this.enumTypeName(enumType)
+            return dataType === 'array' ? `${typeName}[]` : typeName
+        }
         
         // 检查数组类型
         if (dataType.includes('array') || column.udt_name?.endsWith('[]')) {
@@ -300,6 +563,7 @@ export class PostgreSQLIntrospector {
      */
     async generateAllInterfaces(schema: string = 'public', includeComments: boolean = true): Promise<GeneratedInterface[]> {
         const tables = await this.getAllTables(schema)
+        const enumTypes = await this.getEnumTypes()
         const results: GeneratedInterface[] = []
 
         for (const table of tables) {
@@ -311,7 +575,9 @@ export class PostgreSQLIntrospector {
                 table.table_comment,
                 columns,
                 primaryKeys,
-                includeComments
+                includeComments,
+                {},
+                enumTypes
             )
 
             results.push({
@@ -332,6 +598,8 @@ export class PostgreSQLIntrospector {
  */
 export interface TableInfo {
     table_name: string
+    /** BASE TABLE、VIEW 等 */
+    table_type: string
     table_comment: string | null
 }
 
@@ -343,13 +611,26 @@ export interface ColumnInfo {
     data_type: string
     is_nullable: string
     column_default: string | null
+    is_identity: string
+    udt_schema: string
     udt_name: string
+    domain_name: string | null
     character_maximum_length: number | null
     numeric_precision: number | null
     numeric_scale: number | null
     column_comment: string | null
 }
 
+/**
+ * 枚举类型信息接口
+ */
+export interface EnumTypeInfo {
+    type_schema: string
+    type_name: string
+    type_comment: string | null
+    labels: string[]
+}
+
 /**
  * 外键信息接口
  */
@@ -361,14 +642,93 @@ export interface ForeignKeyInfo {
     delete_rule: string
 }
 
+/**
+ * 外键约束信息接口
+ */
+export interface ForeignKeyConstraintInfo {
+    constraint_name: string
+    table_name: string
+    foreign_table_schema: string
+    foreign_table_name: string
+    columns: string[]
+    foreign_columns: string[]
+    update_rule: string
+    delete_rule: string
+}
+
 /**
  * 索引信息接口
  */
 export interface IndexInfo {
     index_name: string
+    /** 列名，表达式索引的键为带括号的表达式 */
     column_name: string
     is_unique: boolean
     is_primary: boolean
+    /** 是否为唯一约束创建的索引 */
+    is_constraint: boolean
+    /** 索引方法，如 btree、gin、gist、hash */
+    index_method: string
+    /** 部分索引的 WHERE 条件，普通索引为 null */
+    index_predicate: string | null
+}
+
+/**
+ * 索引快照
+ */
+export interface IndexSnapshot {
+    name: string
+    /** 索引键，表达式键为带括号的表达式，如 '(lower(email))' */
+    columns: string[]
+    unique: boolean
+    primary: boolean
+    /** 是否为唯一约束创建的索引 */
+    constraint: boolean
+    /** 索引方法，缺省为 btree */
+    method?: string
+    /** 部分索引的 WHERE 条件 */
+    predicate?: string | null
+}
+
+/**
+ * 外键快照
+ */
+export interface ForeignKeySnapshot {
+    name: string
+    columns: string[]
+    /** 被引用的表，其他模式的表为限定名 */
+    foreignTable: string
+    foreignColumns: string[]
+    updateRule: string
+    deleteRule: string
+}
+
+/**
+ * 表结构快照
+ */
+export interface TableSnapshot {
+    tableName: string
+    /** BASE TABLE、VIEW 等 */
+    tableType: string
+    tableComment: string | null
+    columns: ColumnInfo[]
+    primaryKey: { name: string, columns: string[] } | null
+    /** 不包含主键索引 */
+    indexes: IndexSnapshot[]
+    foreignKeys: ForeignKeySnapshot[]
+}
+
+/**
+ * 模式结构快照
+ */
+export interface SchemaSnapshot {
+    /** 快照格式版本 */
+    version: number
+    dialect: 'pgsql'
+    schema: string
+    /** 本模式定义的及表中引用的枚举类型 */
+    enums: EnumTypeInfo[]
+    tables: TableSnapshot[]
 }
 
 /**
@@ -0,0 +1,67 @@
+/**
+ * 事务重试
+ * 序列化失败和死锁时按指数退避重新执行整个事务
+ */
+
+import { isRetryableError } from './errors'
+
+/**
+ * 重试选项
+ */
+export interface RetryOptions {
+    /** 最大尝试次数（包括第一次），默认为3 */
+    maxAttempts?: number
+    /** 第一次重试前的基础等待时间（毫秒），之后每次翻倍，默认为50 */
+    baseDelayMs?: number
+    /** 最大等待时间（毫秒），默认为2000 */
+    maxDelayMs?: number
+    /**
+     * 每次重试前调用
+     * @param error 导致重试的错误
+     * @param attempt 即将进行的尝试序号（从2开始）
+     * @param delayMs 本次等待时间
+     */
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void | Promise<void>
+}
+
+/**
+ * 计算第 n 次重试的等待时间：指数退避，并在上限的一半到全部之间随机取值，避免并发事务同时重试
+ * @param retry 重试序号（从1开始）
+ * @param options 重试选项
+ */
+export function computeRetryDelay(retry: number, options: RetryOptions = {}): number {
+    const { baseDelayMs = 50, maxDelayMs = 2000 } = options
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1))
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2)
+}
+
+/**
+ * 执行操作，遇到可重试的错误（40001、40P01）时重试
+ * 其他错误和达到最大次数后的错误直接抛出
+ * @param operation 要执行的操作，每次尝试都会重新调用
+ * @param options 重试选项
+ * @example
+ * await withRetry(() => adapter.transaction(transfer), { maxAttempts: 5 })
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { maxAttempts = 3 } = options
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        throw new Error(`Invalid retry maxAttempts: ${maxAttempts}`)
+    }
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt)
+        } catch (error) {
+            if (attempt >= maxAttempts || !isRetryableError(error)) {
+                throw error
+            }
+
+            const delayMs = computeRetryDelay(attempt, options)
+            if (options.onRetry) {
+                await options.onRetry(error, attempt + 1, delayMs)
+            }
+            await new Promise(resolve => setTimeout(resolve, delayMs))
+        }
+    }
+}
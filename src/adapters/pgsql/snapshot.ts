@@ -0,0 +1,133 @@
+/**
+ * PostgreSQL结构快照
+ * 将内省结果保存为JSON文件，并在没有数据库连接时从快照生成类型定义
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+    buildTableRelations,
+    ForeignKeyDefinition,
+    GeneratedTable,
+    GeneratedType,
+    generateRelations,
+    IntrospectOptions,
+    IntrospectResult,
+    writeInterfaceFiles
+} from '../../core/interface-gen'
+import { matchTableFilters } from '../../utils'
+import { EnumTypeInfo, PostgreSQLIntrospector, SchemaSnapshot, SNAPSHOT_VERSION } from './introspect'
+
+/**
+ * 将快照保存为JSON文件
+ * 输出格式固定（两空格缩进、结尾换行），便于在代码评审中查看差异
+ * @param filePath 文件路径
+ * @param snapshot 结构快照
+ * @example
+ * writeSnapshotFile('./schema.snapshot.json', await introspector.createSnapshot('public'))
+ */
+export function writeSnapshotFile(filePath: string, snapshot: SchemaSnapshot): void {
+    const dir = path.dirname(filePath)
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true })
+    }
+    fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2) + '\n', 'utf-8')
+}
+
+/**
+ * 读取JSON快照文件并检查格式版本
+ * @param filePath 文件路径
+ */
+export function readSnapshotFile(filePath: string): SchemaSnapshot {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Snapshot file not found: ${filePath}`)
+    }
+
+    const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    if (!snapshot || typeof snapshot !== 'object' || !Array.isArray(snapshot.tables)) {
+        throw new Error(`Invalid snapshot file: ${filePath}`)
+    }
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${snapshot.version} in ${filePath} (expected ${SNAPSHOT_VERSION})`)
+    }
+    if (snapshot.dialect !== 'pgsql') {
+        throw new Error(`Unsupported snapshot dialect: ${snapshot.dialect}`)
+    }
+    return snapshot
+}
+
+/**
+ * 从结构快照生成所有表的TypeScript接口并保存到指定目录，不需要数据库连接
+ * @param snapshot 结构快照
+ * @param outputDir 输出目录路径
+ * @param options 配置选项
+ * @example
+ * generateFromSnapshot(readSnapshotFile('./schema.snapshot.json'), './src/types')
+ */
+export function generateFromSnapshot(
+    snapshot: SchemaSnapshot,
+    outputDir: string,
+    options: IntrospectOptions = {}
+): IntrospectResult {
+    const { includeComments = true, relations = true } = options
+    const introspector = new PostgreSQLIntrospector()
+
+    // 按包含/排除模式过滤
+    const tables = snapshot.tables.filter(table => matchTableFilters(table.tableName, options))
+    if (tables.length === 0) {
+        return {
+            success: false,
+            message: `在模式 '${snapshot.schema}' 中没有找到任何表`,
+            files: [],
+            tables: []
+        }
+    }
+
+    const foreignKeys: ForeignKeyDefinition[] = relations
+        ? snapshot.tables.flatMap(table => table.foreignKeys.map(fk => ({
+            table: table.tableName,
+            columns: fk.columns,
+            foreignTable: fk.foreignTable,
+            foreignColumns: fk.foreignColumns
+        })))
+        : []
+
+    // 生成所有表的接口，并收集引用的枚举类型
+    const usedEnumTypes: EnumTypeInfo[] = []
+    const generated: GeneratedTable[] = []
+    for (const table of tables) {
+        const references = introspector.getEnumReferences(table.tableName, table.columns, snapshot.enums, options)
+
+        let content = introspector.generateInterface(
+            table.tableName,
+            table.tableComment,
+            table.columns,
+            table.primaryKey ? table.primaryKey.columns : [],
+            includeComments,
+            options,
+            snapshot.enums
+        )
+
+        // 根据外键生成表关系映射
+        const tableRelations = buildTableRelations(table.tableName, foreignKeys)
+        if (tableRelations.length > 0) {
+            content += '\n' + generateRelations(table.tableName, tableRelations, includeComments, options.naming)
+        }
+
+        generated.push({
+            tableName: table.tableName,
+            tableComment: table.tableComment,
+            content,
+            typeRefs: references.map(enumType => introspector.enumTypeName(enumType))
+        })
+        usedEnumTypes.push(...references.filter(enumType => !usedEnumTypes.includes(enumType)))
+    }
+
+    // 枚举类型生成为共享的字符串字面量联合类型
+    const sharedTypes: GeneratedType[] = usedEnumTypes.map(enumType => ({
+        name: introspector.enumTypeName(enumType),
+        content: introspector.generateEnumType(enumType, includeComments)
+    }))
+
+    return writeInterfaceFiles(outputDir, generated, `模式: ${snapshot.schema}`, options, sharedTypes)
+}
@@ -0,0 +1,350 @@
+/**
+ * SQLite适配器
+ * 提供SQLite数据库的SQL生成和数据库内省功能
+ */
+
+import Database from 'better-sqlite3'
+import { SQLiteSqlGenerator } from './sql-generator'
+import { CursorPage, CursorPaginateOptions, OffsetPage, PagePaginateOptions, RelationMap, ResultOf, SqlFragment, WhereCondition } from '../../core/builder'
+import { SQLiteIntrospector } from './introspect'
+import { GeneratedTable, InterfaceGenOptions, IntrospectOptions, IntrospectResult, writeInterfaceFiles } from '../../core/interface-gen'
+import { matchTableFilters } from '../../utils'
+
+/**
+ * SQLite连接配置
+ */
+export interface SQLiteConfig {
+    /** 数据库文件路径，':memory:' 表示内存数据库 */
+    filename: string
+    /** 以只读方式打开 */
+    readonly?: boolean
+    /** 文件不存在时抛出错误而不是创建 */
+    fileMustExist?: boolean
+    /** 数据库被锁定时的等待时间（毫秒） */
+    timeout?: number
+}
+
+/**
+ * SQLite查询结果
+ * 与 pg 的 QueryResult 保持相同的 rows / rowCount 结构
+ */
+export interface SQLiteQueryResult<T = any> {
+    rows: T[]
+    rowCount: number
+    /** 最后插入行的rowid（仅写操作） */
+    lastInsertRowid?: number | bigint
+}
+
+/**
+ * 将参数转换为SQLite可绑定的值
+ * @private
+ */
+function normalizeParam(param: any): any {
+    if (param === undefined) return null
+    if (typeof param === 'boolean') return param ? 1 : 0
+    if (param instanceof Date) return param.toISOString()
+    if (param !== null && typeof param === 'object' && !Buffer.isBuffer(param)) {
+        return JSON.stringify(param)
+    }
+    return param
+}
+
+/**
+ * SQLite适配器类
+ * 提供完整的SQLite数据库操作功能
+ */
+export class SQLiteAdapter {
+    private db: Database.Database
+    private filename: string
+    private introspector: SQLiteIntrospector
+
+    constructor(config: SQLiteConfig) {
+        this.filename = config.filename
+        this.db = new Database(config.filename, {
+            readonly: config.readonly ?? false,
+            fileMustExist: config.fileMustExist ?? false,
+            timeout: config.timeout ?? 5000
+        })
+
+        this.introspector = new SQLiteIntrospector(this.db)
+    }
+
+    /**
+     * 创建SQL生成器
+     * @param table 表名
+     * @example
+     * const sql = adapter.createSqlGenerator<User>('users')
+     *   .select('id', 'name', 'email')
+     *   .where({ status: 'active' })
+     *   .limit(10)
+     */
+    createSqlGenerator<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, relations?: R): SQLiteSqlGenerator<T, TInsert, TUpdate, R> {
+        return new SQLiteSqlGenerator<T, TInsert, TUpdate, R>(table, relations)
+    }
+
+    /**
+     * 执行查询
+     * @param sql SQL语句
+     * @param params 参数数组
+     * @example
+     * const result = await adapter.query('SELECT * FROM users WHERE id = ?', [1])
+     */
+    async query(sql: string, params?: any[]): Promise<SQLiteQueryResult> {
+        const statement = this.db.prepare(sql)
+        const values = (params || []).map(normalizeParam)
+
+        // 返回数据的语句（SELECT、带RETURNING的写操作等）
+        if (statement.reader) {
+            const rows = statement.all(...values)
+            return { rows, rowCount: rows.length }
+        }
+
+        const info = statement.run(...values)
+        return { rows: [], rowCount: info.changes, lastInsertRowid: info.lastInsertRowid }
+    }
+
+    /**
+     * 执行查询并返回单条结果
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
+        const result = await this.query(sql, params)
+        return result.rows[0] || null
+    }
+
+    /**
+     * 执行查询并返回结果数组
+     * @param sql SQL语句
+     * @param params 参数数组
+     */
+    async queryMany<T = any>(sql: string, params?: any[]): Promise<T[]> {
+        const result = await this.query(sql, params)
+        return result.rows
+    }
+
+    /**
+     * 获取数据库内省器
+     */
+    getIntrospector(): SQLiteIntrospector {
+        return this.introspector
+    }
+
+    /**
+     * 获取所有表信息
+     */
+    async getAllTables() {
+        return await this.introspector.getAllTables()
+    }
+
+    /**
+     * 获取表结构信息
+     * @param tableName 表名
+     */
+    async getTableStructure(tableName: string) {
+        return await this.introspector.getTableStructure(tableName)
+    }
+
+    /**
+     * 生成表的TypeScript接口
+     * @param tableName 表名
+     */
+    async generateTableInterface(tableName: string, includeComments: boolean = true, options: InterfaceGenOptions = {}) {
+        const columns = await this.introspector.getTableStructure(tableName)
+
+        if (columns.length === 0) {
+            throw new Error(`Table ${tableName} not found`)
+        }
+
+        return this.introspector.generateInterface(tableName, columns, includeComments, options)
+    }
+
+    /**
+     * 生成所有表的TypeScript接口
+     */
+    async generateAllInterfaces(includeComments: boolean = true) {
+        return await this.introspector.generateAllInterfaces(includeComments)
+    }
+
+    /**
+     * 数据库内省：生成所有表的TypeScript接口并保存到指定目录
+     * @param outputDir 输出目录路径
+     * @param options 配置选项
+     */
+    async introspect(outputDir: string, options: IntrospectOptions = {}): Promise<IntrospectResult> {
+        try {
+            const { includeComments = true } = options
+
+            // 获取所有表信息，按包含/排除模式过滤
+            const tables = (await this.getAllTables())
+                .filter(table => matchTableFilters(table.name, options))
+            if (tables.length === 0) {
+                return {
+                    success: false,
+                    message: `在数据库 '${this.filename}' 中没有找到任何表`,
+                    files: [],
+                    tables: []
+                }
+            }
+
+            // 生成所有表的接口
+            const generated: GeneratedTable[] = []
+            for (const table of tables) {
+                generated.push({
+                    tableName: table.name,
+                    tableComment: null,
+                    content: await this.generateTableInterface(table.name, includeComments, options)
+                })
+            }
+
+            return writeInterfaceFiles(outputDir, generated, `数据库: ${this.filename}`, options)
+
+        } catch (error) {
+            return {
+                success: false,
+                message: `内省失败: ${error instanceof Error ? error.message : String(error)}`,
+                files: [],
+                tables: [],
+                error
+            }
+        }
+    }
+
+    /**
+     * 关闭数据库连接
+     */
+    async close(): Promise<void> {
+        this.db.close()
+    }
+
+    /**
+     * 获取数据库实例
+     */
+    getDatabase(): Database.Database {
+        return this.db
+    }
+}
+
+/**
+ * 便捷的查询构建器
+ * 结合SQL生成器和数据库连接的查询执行器
+ */
+export class SQLiteQueryBuilder<
+    T extends Record<string, any>,
+    TInsert extends Record<string, any> = Partial<T>,
+    TUpdate extends Record<string, any> = Partial<T>,
+    R extends RelationMap = {}
+> extends SQLiteSqlGenerator<T, TInsert, TUpdate, R> {
+    private adapter: SQLiteAdapter
+
+    constructor(table: string, adapter: SQLiteAdapter, relations?: R) {
+        super(table, relations)
+        this.adapter = adapter
+    }
+
+    /**
+     * 创建新的查询实例
+     * @param table 表名
+     * @param adapter 数据库适配器
+     * @param relations 表关系（如内省生成的 UsersRelations），用于 joinRelation() 和 with()
+     */
+    static from<
+        T extends Record<string, any>,
+        TInsert extends Record<string, any> = Partial<T>,
+        TUpdate extends Record<string, any> = Partial<T>,
+        R extends RelationMap = {}
+    >(table: string, adapter: SQLiteAdapter, relations?: R): SQLiteQueryBuilder<T, TInsert, TUpdate, R> {
+        return new SQLiteQueryBuilder<T, TInsert, TUpdate, R>(table, adapter, relations)
+    }
+
+    /**
+     * 添加HAVING条件，键为查询结果中的列或 select() 中的别名
+     * @example
+     * await orders.select('user_id', { total: sum('amount') })
+     *   .groupBy('user_id')
+     *   .having({ total: { $gte: 1000 } })
+     *   .execMany()
+     */
+    having(condition: string | SqlFragment | WhereCondition<ResultOf<this, T>>): this {
+        return super.having(condition as WhereCondition<Record<string, any>>)
+    }
+
+    /**
+     * 执行查询并返回结果
+     */
+    async exec(): Promise<SQLiteQueryResult<ResultOf<this, T>>> {
+        const { sql, params } = this.getSqlWithParams()
+        const result = await this.adapter.query(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return result
+    }
+
+    /**
+     * 执行查询并返回单条结果
+     */
+    async execOne(): Promise<ResultOf<this, T> | null> {
+        const { sql, params } = this.getSqlWithParams()
+        const result = await this.adapter.queryOne<ResultOf<this, T>>(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return result
+    }
+
+    /**
+     * 执行查询并返回结果数组
+     */
+    async execMany(): Promise<ResultOf<this, T>[]> {
+        const { sql, params } = this.getSqlWithParams()
+        const result = await this.adapter.queryMany<ResultOf<this, T>>(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return result
+    }
+
+    /**
+     * 分页查询
+     * 传入 first 时使用键集分页，按排序列的值定位下一页，插入新行不会导致重复或遗漏；
+     * 传入 page / pageSize 时使用页码分页，行和总行数在同一次查询中返回
+     * @example
+     * const first = await orders.where({ status: 'paid' }).paginate({ first: 20, orderBy: [['created_at', 'DESC'], 'id'] })
+     * const next = await orders.where({ status: 'paid' }).paginate({ first: 20, orderBy: [['created_at', 'DESC'], 'id'], cursor: first.nextCursor })
+     *
+     * const { items, total, pages } = await orders.paginate({ page: 3, pageSize: 20 })
+     */
+    paginate(options: CursorPaginateOptions<T>): Promise<CursorPage<ResultOf<this, T>>>
+    paginate(options: PagePaginateOptions): Promise<OffsetPage<ResultOf<this, T>>>
+    paginate(options: CursorPaginateOptions<T> | PagePaginateOptions): Promise<CursorPage<ResultOf<this, T>> | OffsetPage<ResultOf<this, T>>> {
+        return this.executePaginate<ResultOf<this, T>>(options, (sql, params) => this.adapter.queryMany(sql, params))
+    }
+
+    /**
+     * 执行查询并返回结果数量
+     */
+    async execCount(): Promise<number> {
+        const { sql, params } = this.compiler.compile(this.buildCountQuery())
+        const result = await this.adapter.queryOne<{ count: number }>(sql, params)
+        return Number(result?.count ?? 0)
+    }
+}
+
+// 导出类型
+export type {
+    SQLiteIntrospector,
+    SQLiteTableInfo,
+    SQLiteColumnInfo,
+    SQLiteForeignKeyInfo,
+    SQLiteIndexInfo,
+    SQLiteGeneratedInterface
+} from './introspect'
+
+// 参数化SQL片段
+export { sql, SqlFragment } from '../../core/builder'
+
+// 聚合函数
+export { count, countDistinct, sum, avg, min, max, AggregateFragment } from '../../core/builder'
@@ -0,0 +1,263 @@
+import Database from 'better-sqlite3'
+import {
+    findTypeOverride,
+    generateInterface,
+    InterfaceColumn,
+    InterfaceGenOptions,
+    NamingOptions,
+    tableNameToInterfaceName
+} from '../../core/interface-gen'
+
+/**
+ * SQLite数据库内省器
+ * 用于从数据库结构自动生成TypeScript接口
+ */
+export class SQLiteIntrospector {
+    private db: Database.Database
+
+    constructor(db: Database.Database) {
+        this.db = db
+    }
+
+    /**
+     * SQLite声明类型到TypeScript类型的映射
+     * 未命中时按SQLite类型亲和性规则推断
+     */
+    private static readonly TYPE_MAP: Record<string, string> = {
+        'integer': 'number',
+        'int': 'number',
+        'bigint': 'number',
+        'real': 'number',
+        'double': 'number',
+        'float': 'number',
+        'numeric': 'number',
+        'decimal': 'number',
+        'boolean': 'number',
+        'text': 'string',
+        'varchar': 'string',
+        'char': 'string',
+        'clob': 'string',
+        'date': 'string',
+        'datetime': 'string',
+        'timestamp': 'string',
+        'json': 'string',
+        'uuid': 'string',
+        'blob': 'Buffer'
+    }
+
+    /**
+     * 获取所有表的信息
+     */
+    async getAllTables(): Promise<SQLiteTableInfo[]> {
+        return this.db.prepare(`
+            SELECT name, sql
+            FROM sqlite_master
+            WHERE type = 'table'
+            AND name NOT LIKE 'sqlite_%'
+            ORDER BY name
+        `).all() as SQLiteTableInfo[]
+    }
+
+    /**
+     * 获取表的结构信息
+     * @param tableName 表名
+     */
+    async getTableStructure(tableName: string): Promise<SQLiteColumnInfo[]> {
+        return this.db.prepare(`SELECT * FROM pragma_table_info(?) ORDER BY cid`).all(tableName) as SQLiteColumnInfo[]
+    }
+
+    /**
+     * 获取表的主键信息
+     * @param tableName 表名
+     */
+    async getPrimaryKeys(tableName: string): Promise<string[]> {
+        const columns = await this.getTableStructure(tableName)
+        return columns
+            .filter(column => column.pk > 0)
+            .sort((a, b) => a.pk - b.pk)
+            .map(column => column.name)
+    }
+
+    /**
+     * 获取表的外键信息
+     * @param tableName 表名
+     */
+    async getForeignKeys(tableName: string): Promise<SQLiteForeignKeyInfo[]> {
+        const rows = this.db.prepare(`SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq`).all(tableName) as any[]
+        const result: SQLiteForeignKeyInfo[] = []
+
+        for (const row of rows) {
+            // 省略被引用列时（REFERENCES parent），引用的是父表主键
+            const foreignColumn = row.to ?? (await this.getPrimaryKeys(row.table))[row.seq]
+            result.push({
+                column_name: row.from,
+                foreign_table_name: row.table,
+                foreign_column_name: foreignColumn,
+                update_rule: row.on_update,
+                delete_rule: row.on_delete
+            })
+        }
+
+        return result
+    }
+
+    /**
+     * 获取表的索引信息
+     * @param tableName 表名
+     */
+    async getIndexes(tableName: string): Promise<SQLiteIndexInfo[]> {
+        const indexes = this.db.prepare(`SELECT * FROM pragma_index_list(?) ORDER BY name`).all(tableName) as any[]
+        const result: SQLiteIndexInfo[] = []
+
+        for (const index of indexes) {
+            const columns = this.db.prepare(`SELECT * FROM pragma_index_info(?) ORDER BY seqno`).all(index.name) as any[]
+            for (const column of columns) {
+                result.push({
+                    index_name: index.name,
+                    column_name: column.name,
+                    is_unique: index.unique === 1,
+                    is_primary: index.origin === 'pk'
+                })
+            }
+        }
+
+        return result
+    }
+
+    /**
+     * 生成TypeScript接口定义
+     * @param tableName 表名
+     * @param columns 列信息
+     * @param includeComments 是否包含注释
+     * @param options 命名规则和类型覆盖
+     */
+    generateInterface(
+        tableName: string,
+        columns: SQLiteColumnInfo[],
+        includeComments: boolean = true,
+        options: InterfaceGenOptions = {}
+    ): string {
+        // 单列 INTEGER PRIMARY KEY 是 rowid 的别名，插入时自动分配
+        const primaryKeyCount = columns.filter(column => column.pk > 0).length
+
+        const interfaceColumns: InterfaceColumn[] = columns.map(column => ({
+            name: column.name,
+            type: findTypeOverride(options.typeOverrides, tableName, column.name, [column.type])
+                ?? this.getTypeScriptType(column),
+            // 主键列即使未声明 NOT NULL 也视为非空
+            nullable: column.notnull === 0 && column.pk === 0,
+            defaultValue: column.dflt_value,
+            primaryKey: column.pk > 0,
+            hasDefault: column.dflt_value !== null
+                || (column.pk > 0 && primaryKeyCount === 1 && column.type.toUpperCase() === 'INTEGER'),
+            comment: null
+        }))
+
+        return generateInterface(tableName, null, interfaceColumns, includeComments, options)
+    }
+
+    /**
+     * 将表名转换为接口名
+     * @param tableName 表名
+     * @param naming 命名规则
+     */
+    tableNameToInterfaceName(tableName: string, naming?: NamingOptions): string {
+        return tableNameToInterfaceName(tableName, naming)
+    }
+
+    /**
+     * 获取TypeScript类型
+     * @param column 列信息
+     */
+    private getTypeScriptType(column: SQLiteColumnInfo): string {
+        // 去掉长度/精度参数，如 VARCHAR(50)、DECIMAL(10, 2)
+        const declaredType = column.type.toLowerCase().replace(/\(.*\)/, '').trim()
+
+        if (SQLiteIntrospector.TYPE_MAP[declaredType]) {
+            return SQLiteIntrospector.TYPE_MAP[declaredType]
+        }
+
+        // 类型亲和性规则 https://www.sqlite.org/datatype3.html
+        if (declaredType.includes('int')) return 'number'
+        if (/char|clob|text/.test(declaredType)) return 'string'
+        if (declaredType === '') return 'any'
+        if (declaredType.includes('blob')) return 'Buffer'
+        if (/real|floa|doub/.test(declaredType)) return 'number'
+
+        return 'number'
+    }
+
+    /**
+     * 生成所有表的接口
+     */
+    async generateAllInterfaces(includeComments: boolean = true): Promise<SQLiteGeneratedInterface[]> {
+        const tables = await this.getAllTables()
+        const results: SQLiteGeneratedInterface[] = []
+
+        for (const table of tables) {
+            const columns = await this.getTableStructure(table.name)
+
+            results.push({
+                tableName: table.name,
+                interfaceName: this.tableNameToInterfaceName(table.name),
+                content: this.generateInterface(table.name, columns, includeComments),
+                columns,
+                primaryKeys: await this.getPrimaryKeys(table.name)
+            })
+        }
+
+        return results
+    }
+}
+
+/**
+ * 表信息接口
+ */
+export interface SQLiteTableInfo {
+    name: string
+    sql: string
+}
+
+/**
+ * 列信息接口（PRAGMA table_info）
+ */
+export interface SQLiteColumnInfo {
+    cid: number
+    name: string
+    type: string
+    notnull: number
+    dflt_value: string | null
+    pk: number
+}
+
+/**
+ * 外键信息接口
+ */
+export interface SQLiteForeignKeyInfo {
+    column_name: string
+    foreign_table_name: string
+    foreign_column_name: string
+    update_rule: string
+    delete_rule: string
+}
+
+/**
+ * 索引信息接口
+ */
+export interface SQLiteIndexInfo {
+    index_name: string
+    column_name: string
+    is_unique: boolean
+    is_primary: boolean
+}
+
+/**
+ * 生成的接口信息
+ */
+export interface SQLiteGeneratedInterface {
+    tableName: string
+    interfaceName: string
+    content: string
+    columns: SQLiteColumnInfo[]
+    primaryKeys: string[]
+}
@@ -0,0 +1,50 @@
+import { CompileContext, OnConflictNode, QueryCompiler, RelationMap, SqlGenerator } from '../../core/builder'
+
+/**
+ * SQLite查询编译器
+ * 使用双引号引用标识符，使用 ? 作为参数占位符
+ */
+export class SQLiteCompiler extends QueryCompiler {
+    quoteIdentifier(identifier: string): string {
+        return `"${identifier.replace(/"/g, '""')}"`
+    }
+
+    placeholder(): string {
+        return '?'
+    }
+
+    /**
+     * SQLite的冲突目标只能是列（及部分索引谓词），不能指定约束名
+     */
+    protected compileOnConflict(onConflict: OnConflictNode, context: CompileContext): string {
+        if (onConflict.constraint) {
+            throw new Error('ON CONFLICT ON CONSTRAINT is not supported by SQLite')
+        }
+        return super.compileOnConflict(onConflict, context)
+    }
+
+    /**
+     * SQLite的 OFFSET 必须跟在 LIMIT 之后，只有偏移量时使用 LIMIT -1 表示不限制行数
+     */
+    protected compileLimit(limit?: number, offset?: number): string {
+        if (!(limit && limit > 0) && offset && offset > 0) {
+            return ` LIMIT -1 OFFSET ${Math.floor(offset)}`
+        }
+        return super.compileLimit(limit, offset)
+    }
+}
+
+/**
+ * SQLite SQL生成器
+ * 用于快速生成SQLite SQL语句，支持参数化查询防止SQL注入
+ */
+export class SQLiteSqlGenerator<
+    T extends Record<string, any>,
+    TInsert extends Record<string, any> = Partial<T>,
+    TUpdate extends Record<string, any> = Partial<T>,
+    R extends RelationMap = {}
+> extends SqlGenerator<T, TInsert, TUpdate, R> {
+    constructor(table: string, relations?: R) {
+        super(table, new SQLiteCompiler(), relations)
+    }
+}
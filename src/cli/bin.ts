@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * typosql 命令行入口
+ */
+
+import { run } from './index'
+
+run(process.argv.slice(2)).then(code => {
+    process.exitCode = code
+})
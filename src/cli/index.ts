@@ -0,0 +1,527 @@
+/**
+ * typosql 命令行工具
+ * 从数据库内省表结构并生成TypeScript类型定义
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import {
+    changesToSql,
+    diffSchemas,
+    generateFromSnapshot,
+    PostgreSQLAdapter,
+    PostgreSQLConfig,
+    readSnapshotFile,
+    SchemaSnapshot,
+    writeSnapshotFile
+} from '../adapters/pgsql'
+import { loadPostgreSQLConfigFromEnv } from '../adapters/pgsql/config'
+import { PostgreSQLClient } from '../adapters/pgsql/client'
+import { MySQLAdapter, MySQLConfig } from '../adapters/mysql'
+import { SQLiteAdapter, SQLiteConfig } from '../adapters/sqlite'
+import { IntrospectOptions, IntrospectResult } from '../core/interface-gen'
+import {
+    ConnectionConfig,
+    findConfigFile,
+    getDialect,
+    IntrospectConfig,
+    loadConfig,
+    loadIntrospectConfig,
+    resolveConnection,
+    resolveIntrospectTargets,
+    validateConnectionConfig
+} from '../config'
+import { createMigration, MigrationOptions, MigrationState, Migrator } from '../migrations'
+
+const HELP = `用法: typosql <命令> [选项]
+
+命令:
+  introspect            内省数据库并生成TypeScript类型定义
+  generate              introspect 的别名
+  snapshot              将数据库结构保存为JSON快照（仅支持 PostgreSQL）
+  migrate:create <name> 创建迁移文件
+  migrate:up            执行未执行的迁移
+  migrate:down          回滚最近执行的迁移
+  migrate:status        查看迁移状态
+  diff                  比较两个结构，输出将 --from 变更为 --to 的SQL
+
+连接选项（优先级: 命令行 > 配置文件 > 环境变量 POSTGRES_*）:
+  -c, --config <file>   项目配置文件，默认查找 typosql.config.ts/.js/.json
+      --connection <n>  使用配置文件中的命名连接
+      --host <host>     数据库主机
+      --port <port>     数据库端口
+      --user <user>     用户名
+      --password <pwd>  密码
+      --database <db>   数据库名
+      --ssl             启用SSL
+
+生成选项:
+  -s, --schema <name>   数据库模式，默认为 public
+  -o, --out <dir>       输出目录，默认为 ./generated-types
+      --single-file     生成单个文件
+      --file-name <n>   单文件模式的文件名，默认为 database-types.ts
+      --no-comments     不包含注释
+      --no-imports      不包含导入语句
+      --include <glob>  只包含匹配的表，可多次指定或以逗号分隔
+      --exclude <glob>  排除匹配的表，可多次指定或以逗号分隔
+      --snapshot <file> generate 时从JSON快照生成，不连接数据库；snapshot 时为输出文件
+  -h, --help            显示帮助信息
+
+迁移选项（仅支持 PostgreSQL）:
+      --dir <dir>       迁移文件目录，默认为 ./migrations
+      --to <version>    up 时执行到该版本为止，down 时回滚该版本之后的所有迁移
+      --steps <n>       down 回滚的迁移数量，默认为 1
+      --generate        迁移完成后重新生成类型定义
+
+差异选项（仅支持 PostgreSQL）:
+      --from <source>   源结构：配置文件中的连接名或 .json 快照文件
+      --to <source>     目标结构：配置文件中的连接名或 .json 快照文件
+  -s, --schema <name>   比较的模式，默认为 public
+  -o, --out <file>      将SQL写入文件，默认输出到标准输出
+`
+
+/**
+ * 命令行参数解析选项
+ */
+const CLI_OPTIONS = {
+    'config': { type: 'string', short: 'c' },
+    'connection': { type: 'string' },
+    'host': { type: 'string' },
+    'port': { type: 'string' },
+    'user': { type: 'string' },
+    'password': { type: 'string' },
+    'database': { type: 'string' },
+    'ssl': { type: 'boolean' },
+    'schema': { type: 'string', short: 's' },
+    'out': { type: 'string', short: 'o' },
+    'single-file': { type: 'boolean' },
+    'file-name': { type: 'string' },
+    'no-comments': { type: 'boolean' },
+    'no-imports': { type: 'boolean' },
+    'include': { type: 'string', multiple: true },
+    'exclude': { type: 'string', multiple: true },
+    'snapshot': { type: 'string' },
+    'dir': { type: 'string' },
+    'from': { type: 'string' },
+    'to': { type: 'string' },
+    'steps': { type: 'string' },
+    'generate': { type: 'boolean' },
+    'help': { type: 'boolean', short: 'h' }
+} as const
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS; allowPositionals: true }>>['values']
+
+/**
+ * 展开可多次指定、以逗号分隔的列表参数
+ */
+function splitList(values?: string[]): string[] | undefined {
+    if (!values) return undefined
+    return values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean)
+}
+
+/**
+ * 解析端口参数，不是 1-65535 之间的整数时返回 null
+ */
+function parsePort(value: string): number | null {
+    const port = /^\d+$/.test(value) ? Number(value) : NaN
+    return port >= 1 && port <= 65535 ? port : null
+}
+
+/**
+ * 命令行指定的模式、输出目录等生成选项覆盖配置文件
+ */
+function applyIntrospectFlags(introspect: IntrospectConfig | undefined, values: CliValues): IntrospectConfig {
+    const base = introspect || { outputDir: './generated-types' }
+    return {
+        ...base,
+        outputDir: values.out || base.outputDir,
+        schemas: values.schema ? [values.schema] : base.schemas,
+        singleFile: values['single-file'] ?? base.singleFile,
+        fileName: values['file-name'] ?? base.fileName,
+        includeComments: values['no-comments'] ? false : base.includeComments,
+        includeImports: values['no-imports'] ? false : base.includeImports,
+        include: splitList(values.include) ?? base.include,
+        exclude: splitList(values.exclude) ?? base.exclude
+    }
+}
+
+/**
+ * 确定要使用的连接：项目配置文件中的命名连接，或环境变量中的PostgreSQL连接
+ * 命令行参数覆盖对应字段
+ */
+function resolveCliConnection(values: CliValues): [string, ConnectionConfig] {
+    const configPath = values.config || findConfigFile()
+
+    let name: string
+    let connection: ConnectionConfig
+    if (configPath) {
+        [name, connection] = resolveConnection(loadConfig(configPath), values.connection)
+        connection = { ...connection }
+    } else {
+        if (values.connection) {
+            throw new Error(`Connection '${values.connection}' requires a typosql configuration file`)
+        }
+        name = 'env'
+        connection = loadPostgreSQLConfigFromEnv()
+    }
+
+    if (values.host !== undefined) (connection as PostgreSQLConfig).host = values.host
+    if (values.port !== undefined) (connection as PostgreSQLConfig).port = parsePort(values.port)!
+    if (values.user !== undefined) (connection as PostgreSQLConfig).user = values.user
+    if (values.password !== undefined) (connection as PostgreSQLConfig).password = values.password
+    if (values.database !== undefined) {
+        if (getDialect(connection) === 'sqlite') {
+            (connection as SQLiteConfig).filename = values.database
+        } else {
+            (connection as PostgreSQLConfig).database = values.database
+        }
+    }
+    if (values.ssl !== undefined) (connection as PostgreSQLConfig).ssl = values.ssl
+
+    connection.introspect = applyIntrospectFlags(connection.introspect, values)
+
+    validateConnectionConfig(name, connection)
+    return [name, connection]
+}
+
+/**
+ * 按方言创建适配器，并统一内省调用方式
+ */
+function createIntrospector(connection: ConnectionConfig): {
+    introspect(outputDir: string, schema: string, options: IntrospectOptions): Promise<IntrospectResult>
+    close(): Promise<void>
+} {
+    switch (getDialect(connection)) {
+        case 'mysql': {
+            const adapter = new MySQLAdapter(connection as MySQLConfig)
+            return {
+                introspect: (outputDir, schema, options) => adapter.introspect(outputDir, schema, options),
+                close: () => adapter.close()
+            }
+        }
+        case 'sqlite': {
+            const adapter = new SQLiteAdapter(connection as SQLiteConfig)
+            return {
+                introspect: (outputDir, _schema, options) => adapter.introspect(outputDir, options),
+                close: () => adapter.close()
+            }
+        }
+        default: {
+            const adapter = new PostgreSQLAdapter(connection as PostgreSQLConfig)
+            return {
+                introspect: (outputDir, schema, options) => adapter.introspect(outputDir, schema, options),
+                close: () => adapter.close()
+            }
+        }
+    }
+}
+
+/**
+ * 内省连接并生成类型定义
+ * @returns 是否全部成功
+ */
+async function introspectConnection(name: string, connection: ConnectionConfig): Promise<boolean> {
+    const { outputDir: _outputDir, schemas: _schemas, ...options } = connection.introspect!
+    const introspector = createIntrospector(connection)
+
+    try {
+        let succeeded = true
+        for (const target of resolveIntrospectTargets(connection)) {
+            console.log(`🔍 内省连接 ${name} (${getDialect(connection)})${target.schema ? `，模式: ${target.schema}` : ''}`)
+
+            const result = await introspector.introspect(target.outputDir, target.schema, options)
+            if (!result.success) {
+                console.error(`❌ ${result.message}`)
+                succeeded = false
+                continue
+            }
+
+            console.log(`✅ ${result.message}`)
+            console.log(`📊 处理的表: ${result.tables.join(', ')}`)
+        }
+        return succeeded
+    } finally {
+        await introspector.close()
+    }
+}
+
+/**
+ * 获取迁移配置，命令行指定的目录覆盖配置文件
+ */
+function resolveMigrationOptions(values: CliValues, connection?: ConnectionConfig): MigrationOptions {
+    if (!connection) {
+        const configPath = values.config || findConfigFile()
+        if (configPath) {
+            connection = resolveConnection(loadConfig(configPath), values.connection)[1]
+        }
+    }
+
+    return {
+        ...connection?.migrations,
+        directory: values.dir || connection?.migrations?.directory
+    }
+}
+
+const STATE_LABELS: Record<MigrationState, string> = {
+    applied: '✅ 已执行',
+    pending: '⏳ 未执行',
+    changed: '⚠️  执行后被修改',
+    missing: '❓ 文件缺失'
+}
+
+/**
+ * 执行迁移命令
+ * @returns 退出码
+ */
+async function runMigrate(command: string, values: CliValues, positionals: string[]): Promise<number> {
+    if (command === 'migrate:create') {
+        const migrationName = positionals[1]
+        if (!migrationName) {
+            console.error('❌ 缺少迁移名称\n')
+            console.error(HELP)
+            return 2
+        }
+
+        const file = createMigration(migrationName, resolveMigrationOptions(values).directory)
+        console.log(`✅ 已创建迁移: ${file.upPath}`)
+        console.log(`✅ 已创建迁移: ${file.downPath}`)
+        return 0
+    }
+
+    const steps = values.steps !== undefined ? Number(values.steps) : undefined
+    if (steps !== undefined && (!Number.isInteger(steps) || steps < 1)) {
+        console.error(`❌ 无效的回滚数量: ${values.steps}\n`)
+        return 2
+    }
+
+    const [name, connection] = resolveCliConnection(values)
+    if (getDialect(connection) !== 'pgsql') {
+        throw new Error(`Migrations are only supported for PostgreSQL connections (connection '${name}')`)
+    }
+
+    const client = new PostgreSQLClient(connection as PostgreSQLConfig)
+    const migrator = new Migrator(client, resolveMigrationOptions(values, connection))
+
+    let changed = false
+    try {
+        switch (command) {
+            case 'migrate:status': {
+                const statuses = await migrator.status()
+                if (statuses.length === 0) {
+                    console.log('📭 没有迁移')
+                }
+                for (const status of statuses) {
+                    const appliedAt = status.appliedAt ? `  ${status.appliedAt.toISOString()}` : ''
+                    console.log(`${STATE_LABELS[status.state]}  ${status.version}_${status.name}${appliedAt}`)
+                }
+                return statuses.some(status => status.state === 'changed' || status.state === 'missing') ? 1 : 0
+            }
+            case 'migrate:up': {
+                const results = await migrator.up({ to: values.to })
+                if (results.length === 0) {
+                    console.log('✅ 没有需要执行的迁移')
+                }
+                for (const result of results) {
+                    console.log(`⬆️  ${result.version}_${result.name} (${result.durationMs}ms)`)
+                }
+                changed = results.length > 0
+                break
+            }
+            case 'migrate:down': {
+                const results = await migrator.down({ steps, to: values.to })
+                if (results.length === 0) {
+                    console.log('✅ 没有需要回滚的迁移')
+                }
+                for (const result of results) {
+                    console.log(`⬇️  ${result.version}_${result.name} (${result.durationMs}ms)`)
+                }
+                changed = results.length > 0
+                break
+            }
+        }
+    } finally {
+        await client.close()
+    }
+
+    // 表结构有变化时重新生成类型定义
+    if (values.generate && changed) {
+        return await introspectConnection(name, connection) ? 0 : 1
+    }
+    return 0
+}
+
+const MIGRATE_COMMANDS = ['migrate:create', 'migrate:up', 'migrate:down', 'migrate:status']
+
+const DEFAULT_SNAPSHOT_FILE = './typosql.snapshot.json'
+
+/**
+ * 将连接的数据库结构保存为JSON快照
+ * @returns 退出码
+ */
+async function runSnapshot(values: CliValues): Promise<number> {
+    const [name, connection] = resolveCliConnection(values)
+    if (getDialect(connection) !== 'pgsql') {
+        throw new Error(`Snapshots are only supported for PostgreSQL connections (connection '${name}')`)
+    }
+
+    const configured = connection.introspect!.schemas
+    const schemas = configured && configured.length > 0 ? configured : ['public']
+    if (schemas.length > 1) {
+        throw new Error(`Connection '${name}' introspects multiple schemas; use --schema to select one`)
+    }
+
+    const adapter = new PostgreSQLAdapter(connection as PostgreSQLConfig)
+    try {
+        console.log(`🔍 内省连接 ${name} (pgsql)，模式: ${schemas[0]}`)
+        const snapshot = await adapter.getIntrospector().createSnapshot(schemas[0], connection.introspect)
+        const filePath = values.snapshot || DEFAULT_SNAPSHOT_FILE
+        writeSnapshotFile(filePath, snapshot)
+        console.log(`✅ 已保存 ${snapshot.tables.length} 个表的结构快照: ${filePath}`)
+        return 0
+    } finally {
+        await adapter.close()
+    }
+}
+
+/**
+ * 从JSON快照生成类型定义，不连接数据库
+ * 生成选项来自配置文件中连接的内省配置（如存在）和命令行参数
+ * @returns 退出码
+ */
+function runGenerateFromSnapshot(values: CliValues): number {
+    const snapshot = readSnapshotFile(values.snapshot!)
+    const configPath = values.config || findConfigFile()
+    const introspect = applyIntrospectFlags(configPath ? loadIntrospectConfig(configPath, values.connection) : undefined, values)
+
+    const { outputDir, schemas: _schemas, ...options } = introspect
+    const targetDir = typeof outputDir === 'string' ? outputDir : outputDir[snapshot.schema]
+    if (!targetDir) {
+        throw new Error(`Missing introspect outputDir for schema: ${snapshot.schema}`)
+    }
+
+    console.log(`📄 从快照生成 ${values.snapshot}，模式: ${snapshot.schema}`)
+    const result = generateFromSnapshot(snapshot, targetDir, options)
+    if (!result.success) {
+        console.error(`❌ ${result.message}`)
+        return 1
+    }
+
+    console.log(`✅ ${result.message}`)
+    console.log(`📊 处理的表: ${result.tables.join(', ')}`)
+    return 0
+}
+
+/**
+ * 加载结构快照：.json 文件直接读取，否则视为配置文件中的连接名并内省数据库
+ */
+async function loadSnapshot(source: string, values: CliValues): Promise<SchemaSnapshot> {
+    if (source.endsWith('.json')) {
+        return readSnapshotFile(source)
+    }
+
+    const [name, connection] = resolveConnection(loadConfig(values.config), source)
+    if (getDialect(connection) !== 'pgsql') {
+        throw new Error(`Schema diff is only supported for PostgreSQL connections (connection '${name}')`)
+    }
+
+    const adapter = new PostgreSQLAdapter(connection as PostgreSQLConfig)
+    try {
+        const schema = values.schema || connection.introspect?.schemas?.[0] || 'public'
+        return await adapter.getIntrospector().createSnapshot(schema, {
+            include: splitList(values.include),
+            exclude: splitList(values.exclude)
+        })
+    } finally {
+        await adapter.close()
+    }
+}
+
+/**
+ * 比较两个结构并输出变更SQL
+ * @returns 退出码
+ */
+async function runDiff(values: CliValues): Promise<number> {
+    if (!values.from || !values.to) {
+        console.error('❌ diff 需要同时指定 --from 和 --to\n')
+        console.error(HELP)
+        return 2
+    }
+
+    const source = await loadSnapshot(values.from, values)
+    const target = await loadSnapshot(values.to, values)
+    const changes = diffSchemas(source, target)
+
+    if (changes.length === 0) {
+        console.error('✅ 结构一致，没有差异')
+        return 0
+    }
+
+    const sql = changesToSql(changes)
+    if (values.out) {
+        fs.mkdirSync(path.dirname(values.out), { recursive: true })
+        fs.writeFileSync(values.out, sql, 'utf-8')
+        console.error(`✅ 已写入 ${changes.length} 项变更: ${values.out}`)
+    } else {
+        process.stdout.write(sql)
+    }
+    return 0
+}
+
+/**
+ * 运行命令行
+ * @param argv 命令行参数（不含 node 和脚本路径）
+ * @returns 退出码：0 成功，1 执行失败，2 参数错误
+ */
+export async function run(argv: string[]): Promise<number> {
+    let parsed
+    try {
+        parsed = parseArgs({ args: argv, allowPositionals: true, options: CLI_OPTIONS })
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}\n`)
+        console.error(HELP)
+        return 2
+    }
+
+    const { values, positionals } = parsed
+    const command = positionals[0]
+
+    if (values.help || !command) {
+        console.log(HELP)
+        return values.help ? 0 : 2
+    }
+
+    if (values.port !== undefined && parsePort(values.port) === null) {
+        console.error(`❌ 无效的端口: ${values.port}\n`)
+        console.error(HELP)
+        return 2
+    }
+
+    if (!['introspect', 'generate', 'snapshot', 'diff'].includes(command) && !MIGRATE_COMMANDS.includes(command)) {
+        console.error(`❌ 未知命令: ${command}\n`)
+        console.error(HELP)
+        return 2
+    }
+
+    try {
+        if (MIGRATE_COMMANDS.includes(command)) {
+            return await runMigrate(command, values, positionals)
+        }
+        if (command === 'diff') {
+            return await runDiff(values)
+        }
+        if (command === 'snapshot') {
+            return await runSnapshot(values)
+        }
+        if (values.snapshot) {
+            return runGenerateFromSnapshot(values)
+        }
+
+        const [name, connection] = resolveCliConnection(values)
+        return await introspectConnection(name, connection) ? 0 : 1
+
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+        return 1
+    }
+}
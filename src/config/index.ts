@@ -0,0 +1,378 @@
+/**
+ * 项目配置
+ * 从 typosql.config.ts / .js / .json 加载多个命名连接及其内省配置
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { PostgreSQLConfig } from '../adapters/pgsql'
+import { validatePostgreSQLConfig } from '../adapters/pgsql/config'
+import { MySQLConfig } from '../adapters/mysql'
+import { SQLiteConfig } from '../adapters/sqlite'
+import { IntrospectOptions } from '../core/interface-gen'
+import { MigrationOptions } from '../migrations'
+
+/**
+ * 支持的数据库方言
+ */
+export type Dialect = 'pgsql' | 'mysql' | 'sqlite'
+
+/**
+ * 连接的内省配置
+ */
+export interface IntrospectConfig extends IntrospectOptions {
+    /** 输出目录；多个模式时为字符串则按模式名建子目录，也可按模式名分别指定 */
+    outputDir: string | Record<string, string>
+    /** 要内省的模式（MySQL 为数据库名），默认为 PostgreSQL 的 public 或 MySQL 的连接数据库 */
+    schemas?: string[]
+}
+
+/**
+ * 连接配置的公共部分
+ */
+interface BaseConnectionConfig {
+    /** 内省配置 */
+    introspect?: IntrospectConfig
+    /** 迁移配置（仅支持 PostgreSQL） */
+    migrations?: MigrationOptions
+}
+
+/**
+ * PostgreSQL连接
+ */
+export interface PostgreSQLConnectionConfig extends PostgreSQLConfig, BaseConnectionConfig {
+    dialect?: 'pgsql'
+}
+
+/**
+ * MySQL连接
+ */
+export interface MySQLConnectionConfig extends MySQLConfig, BaseConnectionConfig {
+    dialect: 'mysql'
+}
+
+/**
+ * SQLite连接
+ */
+export interface SQLiteConnectionConfig extends SQLiteConfig, BaseConnectionConfig {
+    dialect: 'sqlite'
+}
+
+/**
+ * 命名连接配置，未指定 dialect 时视为 PostgreSQL
+ */
+export type ConnectionConfig = PostgreSQLConnectionConfig | MySQLConnectionConfig | SQLiteConnectionConfig
+
+/**
+ * 项目配置
+ */
+export interface TyposqlConfig {
+    /** 默认使用的连接名，未指定时使用第一个连接 */
+    defaultConnection?: string
+    /** 命名连接 */
+    connections: Record<string, ConnectionConfig>
+}
+
+/**
+ * 按顺序查找的配置文件名
+ */
+export const CONFIG_FILE_NAMES = ['typosql.config.ts', 'typosql.config.js', 'typosql.config.json']
+
+/**
+ * 定义项目配置（仅用于在 typosql.config.ts 中获得类型提示）
+ * @example
+ * export default defineConfig({
+ *   connections: {
+ *     main: {
+ *       host: 'localhost', port: 5432, user: 'postgres',
+ *       password: '${POSTGRES_PASSWORD}', database: 'app',
+ *       introspect: { outputDir: './src/types', schemas: ['public'] }
+ *     }
+ *   }
+ * })
+ */
+export function defineConfig(config: TyposqlConfig): TyposqlConfig {
+    return config
+}
+
+/**
+ * 替换字符串中的 ${ENV_VAR} 引用，支持 ${ENV_VAR:-默认值}
+ * 对象和数组会递归处理
+ * @param input 配置值
+ * @param env 环境变量，默认为 process.env
+ * @example
+ * interpolateEnv('${DB_HOST:-localhost}') // 未设置 DB_HOST 时返回 'localhost'
+ */
+export function interpolateEnv<T>(input: T, env: Record<string, string | undefined> = process.env): T {
+    if (typeof input === 'string') {
+        return input.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => {
+            const val = env[name]
+            if (val !== undefined && val !== '') return val
+            if (fallback !== undefined) return fallback
+            throw new Error(`Environment variable ${name} is not set`)
+        }) as unknown as T
+    }
+
+    if (Array.isArray(input)) {
+        return input.map(item => interpolateEnv(item, env)) as unknown as T
+    }
+
+    if (input !== null && typeof input === 'object') {
+        const result: Record<string, any> = {}
+        for (const [key, val] of Object.entries(input)) {
+            result[key] = interpolateEnv(val, env)
+        }
+        return result as T
+    }
+
+    return input
+}
+
+/**
+ * 获取连接的方言
+ */
+export function getDialect(connection: ConnectionConfig): Dialect {
+    return connection.dialect || 'pgsql'
+}
+
+/**
+ * 验证单个连接配置
+ * @param name 连接名
+ * @param connection 连接配置
+ */
+export function validateConnectionConfig(name: string, connection: ConnectionConfig): boolean {
+    const dialect = getDialect(connection)
+
+    try {
+        switch (dialect) {
+            case 'pgsql':
+                validatePostgreSQLConfig(connection)
+                break
+            case 'mysql':
+                for (const field of ['host', 'port', 'user', 'database']) {
+                    if (!(connection as any)[field]) {
+                        throw new Error(`Missing required MySQL configuration: ${field}`)
+                    }
+                }
+                const port = (connection as MySQLConnectionConfig).port
+                if (!Number.isInteger(port) || port < 1 || port > 65535) {
+                    throw new Error('Invalid MySQL port number')
+                }
+                break
+            case 'sqlite':
+                if (!(connection as SQLiteConnectionConfig).filename) {
+                    throw new Error('Missing required SQLite configuration: filename')
+                }
+                break
+            default:
+                throw new Error(`Unsupported dialect: ${dialect}`)
+        }
+
+        const introspect = connection.introspect
+        if (introspect) {
+            if (!introspect.outputDir || (typeof introspect.outputDir !== 'string' && typeof introspect.outputDir !== 'object')) {
+                throw new Error('Missing required introspect configuration: outputDir')
+            }
+            if (introspect.schemas !== undefined) {
+                if (!Array.isArray(introspect.schemas) || introspect.schemas.some(schema => typeof schema !== 'string' || !schema)) {
+                    throw new Error('Invalid introspect configuration: schemas must be an array of names')
+                }
+                if (dialect === 'sqlite' && introspect.schemas.length > 0) {
+                    throw new Error('Invalid introspect configuration: SQLite does not support schemas')
+                }
+            }
+            if (typeof introspect.outputDir === 'object') {
+                for (const schema of introspect.schemas || []) {
+                    if (!introspect.outputDir[schema]) {
+                        throw new Error(`Missing introspect outputDir for schema: ${schema}`)
+                    }
+                }
+            }
+        }
+
+        const migrations = connection.migrations
+        if (migrations) {
+            if (dialect !== 'pgsql') {
+                throw new Error('Invalid migrations configuration: only PostgreSQL is supported')
+            }
+            for (const field of ['directory', 'tableName'] as const) {
+                if (migrations[field] !== undefined && (typeof migrations[field] !== 'string' || !migrations[field])) {
+                    throw new Error(`Invalid migrations configuration: ${field} must be a non-empty string`)
+                }
+            }
+        }
+    } catch (error) {
+        throw new Error(`Invalid connection '${name}': ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    return true
+}
+
+/**
+ * 验证项目配置
+ * @param config 项目配置
+ */
+export function validateConfig(config: any): config is TyposqlConfig {
+    if (!config || typeof config !== 'object') {
+        throw new Error('Invalid typosql configuration: expected an object')
+    }
+
+    const connections = config.connections
+    if (!connections || typeof connections !== 'object' || Object.keys(connections).length === 0) {
+        throw new Error('Invalid typosql configuration: at least one connection is required')
+    }
+
+    if (config.defaultConnection !== undefined && !connections[config.defaultConnection]) {
+        throw new Error(`Invalid typosql configuration: default connection '${config.defaultConnection}' not found`)
+    }
+
+    for (const [name, connection] of Object.entries(connections)) {
+        validateConnectionConfig(name, connection as ConnectionConfig)
+    }
+
+    return true
+}
+
+/**
+ * 规范化配置：环境变量替换后端口可能是字符串，数字字符串转换为数字
+ * 其他值保持原样，由验证报告无效的端口
+ * @private
+ */
+function normalizeConfig(config: any): any {
+    if (!config || typeof config.connections !== 'object' || config.connections === null) {
+        return config
+    }
+    for (const connection of Object.values<any>(config.connections)) {
+        if (connection && typeof connection.port === 'string' && /^\s*\d+\s*$/.test(connection.port)) {
+            connection.port = Number(connection.port)
+        }
+    }
+    return config
+}
+
+/**
+ * 在目录中查找配置文件
+ * @param cwd 查找目录，默认为当前工作目录
+ * @returns 配置文件路径，未找到时返回 null
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const filePath = path.join(cwd, fileName)
+        if (fs.existsSync(filePath)) {
+            return filePath
+        }
+    }
+    return null
+}
+
+/**
+ * 读取配置文件的原始内容
+ * @private
+ */
+function readConfigFile(filePath: string): any {
+    if (filePath.endsWith('.json')) {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    }
+
+    if (filePath.endsWith('.ts')) {
+        // 通过 ts-node 加载 TypeScript 配置（已在 ts-node 下运行时无需重复注册）
+        if (!(process as any)[Symbol.for('ts-node.register.instance')]) {
+            try {
+                require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } })
+            } catch (error) {
+                throw new Error('Loading typosql.config.ts requires ts-node to be installed')
+            }
+        }
+    }
+
+    const loaded = require(filePath)
+    return loaded.default || loaded
+}
+
+/**
+ * 加载项目配置
+ * 读取配置文件，替换 ${ENV_VAR} 引用并验证
+ * @param configPath 配置文件路径，未指定时在当前目录查找
+ * @example
+ * const config = loadConfig()
+ * const [name, connection] = resolveConnection(config)
+ */
+export function loadConfig(configPath?: string): TyposqlConfig {
+    const filePath = configPath ? path.resolve(configPath) : findConfigFile()
+    if (!filePath) {
+        throw new Error(`No typosql configuration found (looked for ${CONFIG_FILE_NAMES.join(', ')})`)
+    }
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Config file not found: ${filePath}`)
+    }
+
+    const config = normalizeConfig(interpolateEnv(readConfigFile(filePath)))
+    validateConfig(config)
+    return config
+}
+
+/**
+ * 加载命名连接的内省配置，不验证连接参数，只替换内省配置中的环境变量
+ * 用于从快照生成类型等不需要连接数据库的场景（无需提供数据库密码等环境变量）
+ * @param configPath 配置文件路径，未指定时在当前目录查找
+ * @param name 连接名，默认为 defaultConnection 或第一个连接
+ * @returns 内省配置，未配置时返回 undefined
+ */
+export function loadIntrospectConfig(configPath?: string, name?: string): IntrospectConfig | undefined {
+    const filePath = configPath ? path.resolve(configPath) : findConfigFile()
+    if (!filePath || !fs.existsSync(filePath)) {
+        throw new Error(`Config file not found: ${filePath || CONFIG_FILE_NAMES.join(', ')}`)
+    }
+
+    const config = readConfigFile(filePath)
+    if (!config || typeof config !== 'object' || !config.connections || typeof config.connections !== 'object') {
+        throw new Error('Invalid typosql configuration: at least one connection is required')
+    }
+
+    const [, connection] = resolveConnection(config, name)
+    return connection.introspect ? interpolateEnv(connection.introspect) : undefined
+}
+
+/**
+ * 获取命名连接
+ * @param config 项目配置
+ * @param name 连接名，默认为 defaultConnection 或第一个连接
+ * @returns [连接名, 连接配置]
+ */
+export function resolveConnection(config: TyposqlConfig, name?: string): [string, ConnectionConfig] {
+    const connectionName = name || config.defaultConnection || Object.keys(config.connections)[0]
+    const connection = config.connections[connectionName]
+    if (!connection) {
+        throw new Error(`Connection '${connectionName}' not found in typosql configuration`)
+    }
+    return [connectionName, connection]
+}
+
+/**
+ * 获取连接要内省的模式及对应输出目录
+ * @param connection 连接配置
+ * @returns 模式与输出目录列表；SQLite 的模式为空字符串
+ */
+export function resolveIntrospectTargets(connection: ConnectionConfig): { schema: string; outputDir: string }[] {
+    const introspect = connection.introspect
+    if (!introspect) {
+        throw new Error('Connection has no introspect configuration')
+    }
+
+    const dialect = getDialect(connection)
+    const schemas = dialect === 'sqlite'
+        ? ['']
+        : introspect.schemas && introspect.schemas.length > 0
+            ? introspect.schemas
+            : [dialect === 'mysql' ? (connection as MySQLConnectionConfig).database : 'public']
+
+    return schemas.map(schema => {
+        let outputDir: string
+        if (typeof introspect.outputDir === 'string') {
+            outputDir = schemas.length > 1 ? path.join(introspect.outputDir, schema) : introspect.outputDir
+        } else {
+            outputDir = introspect.outputDir[schema]
+        }
+        return { schema, outputDir }
+    })
+}
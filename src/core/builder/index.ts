@@ -0,0 +1,2012 @@
+/**
+ * 方言无关的查询构建核心
+ * 查询以类型化的AST表示，由各数据库适配器提供的编译器转换为SQL文本和参数
+ */
+
+/**
+ * 查询类型
+ */
+export type QueryType = 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE'
+
+/**
+ * JOIN类型
+ */
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL'
+
+/**
+ * 排序方向
+ */
+export type OrderDirection = 'ASC' | 'DESC'
+
+/**
+ * 比较运算符
+ */
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE'
+
+/**
+ * 方言相关的谓词，由各方言的编译器决定如何生成SQL
+ * - ilike / regex / iregex: 忽略大小写匹配和正则匹配
+ * - contains / containedBy / overlap: 数组包含、被包含和有交集
+ * - hasKey / jsonContains / jsonPath: JSON 键存在、包含和路径匹配
+ * - textSearch: 全文检索
+ */
+export type PredicateOperator =
+    | 'ilike'
+    | 'regex'
+    | 'iregex'
+    | 'contains'
+    | 'containedBy'
+    | 'overlap'
+    | 'hasKey'
+    | 'jsonContains'
+    | 'jsonPath'
+    | 'textSearch'
+
+/**
+ * 聚合函数
+ */
+export type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX'
+
+/**
+ * 列引用节点
+ */
+export interface ColumnNode {
+    kind: 'column'
+    name: string
+    table?: string
+}
+
+/**
+ * 通配符节点（* 或 table.*）
+ */
+export interface StarNode {
+    kind: 'star'
+    table?: string
+}
+
+/**
+ * 参数值节点，编译时转换为占位符
+ */
+export interface ValueNode {
+    kind: 'value'
+    value: any
+}
+
+/**
+ * 原始SQL片段节点，编译时原样输出
+ */
+export interface RawNode {
+    kind: 'raw'
+    sql: string
+}
+
+/**
+ * 比较条件节点
+ */
+export interface ComparisonNode {
+    kind: 'comparison'
+    left: ExpressionNode
+    operator: ComparisonOperator
+    right: ExpressionNode
+}
+
+/**
+ * IN / NOT IN 条件节点
+ */
+export interface InNode {
+    kind: 'in'
+    left: ExpressionNode
+    /** 值列表或子查询 */
+    values: ExpressionNode[] | SelectQueryNode
+    negated: boolean
+}
+
+/**
+ * BETWEEN 条件节点
+ */
+export interface BetweenNode {
+    kind: 'between'
+    left: ExpressionNode
+    low: ExpressionNode
+    high: ExpressionNode
+}
+
+/**
+ * 方言相关的谓词节点
+ * config 为全文检索的文本搜索配置（如 'english'）
+ */
+export interface PredicateNode {
+    kind: 'predicate'
+    operator: PredicateOperator
+    left: ExpressionNode
+    right: ExpressionNode
+    config?: ExpressionNode
+}
+
+/**
+ * IS NULL / IS NOT NULL 条件节点
+ */
+export interface NullCheckNode {
+    kind: 'isNull'
+    left: ExpressionNode
+    negated: boolean
+}
+
+/**
+ * AND / OR 逻辑组合节点
+ */
+export interface LogicalNode {
+    kind: 'and' | 'or'
+    conditions: ExpressionNode[]
+}
+
+/**
+ * NOT 逻辑节点
+ */
+export interface NotNode {
+    kind: 'not'
+    condition: ExpressionNode
+}
+
+/**
+ * 聚合函数节点
+ */
+export interface AggregateNode {
+    kind: 'aggregate'
+    fn: AggregateFunction
+    argument: ColumnNode | StarNode
+    distinct: boolean
+}
+
+/**
+ * 别名节点（expr AS alias）
+ */
+export interface AliasNode {
+    kind: 'alias'
+    expression: ExpressionNode
+    alias: string
+}
+
+/**
+ * SQL片段节点（sql`...` 模板）
+ * strings 与 values 交替拼接，values 编译为参数占位符、标识符或嵌套片段
+ */
+export interface FragmentNode {
+    kind: 'fragment'
+    strings: readonly string[]
+    values: ExpressionNode[]
+}
+
+/**
+ * 插入行中的值节点（UPSERT 中的 EXCLUDED.col）
+ */
+export interface ExcludedNode {
+    kind: 'excluded'
+    name: string
+}
+
+/**
+ * 子查询节点，编译时加括号，参数与外层查询统一编号
+ */
+export interface SubqueryNode {
+    kind: 'subquery'
+    query: SelectQueryNode
+}
+
+/**
+ * EXISTS / NOT EXISTS 条件节点
+ */
+export interface ExistsNode {
+    kind: 'exists'
+    query: SelectQueryNode
+    negated: boolean
+}
+
+/**
+ * 表达式节点
+ */
+export type ExpressionNode =
+    | ColumnNode
+    | StarNode
+    | ValueNode
+    | RawNode
+    | ComparisonNode
+    | InNode
+    | BetweenNode
+    | PredicateNode
+    | NullCheckNode
+    | LogicalNode
+    | NotNode
+    | AggregateNode
+    | AliasNode
+    | FragmentNode
+    | ExcludedNode
+    | SubqueryNode
+    | ExistsNode
+
+/**
+ * JOIN子句节点
+ */
+export interface JoinNode {
+    type: JoinType
+    table: string
+    alias?: string
+    on: ExpressionNode
+}
+
+/**
+ * ORDER BY子句节点
+ */
+export interface OrderByNode {
+    expression: ExpressionNode
+    direction: OrderDirection
+}
+
+/**
+ * 赋值节点（SET column = value）
+ */
+export interface AssignmentNode {
+    column: string
+    value: ExpressionNode
+}
+
+/**
+ * 冲突处理节点（UPSERT）
+ * update为空时表示忽略冲突
+ */
+export interface OnConflictNode {
+    columns: string[]
+    /** 冲突目标约束名，设置后忽略 columns 和 where */
+    constraint?: string
+    /** 部分唯一索引的谓词 */
+    where?: ExpressionNode[]
+    update?: AssignmentNode[]
+    /** DO UPDATE 的条件 */
+    updateWhere?: ExpressionNode[]
+}
+
+/**
+ * 公用表表达式节点（WITH name AS (...)）
+ */
+export interface CommonTableNode {
+    name: string
+    query: SelectQueryNode
+    /** 递归部分，与 query 以 UNION ALL 连接，可以引用 name 自身 */
+    recursive?: SelectQueryNode
+    /** 递归部分使用 UNION 去除重复行，可以避免环形数据无限递归 */
+    distinct?: boolean
+}
+
+/**
+ * SELECT查询节点
+ */
+export interface SelectQueryNode {
+    type: 'SELECT'
+    with?: CommonTableNode[]
+    /** 表名，source 存在时为派生表的别名 */
+    table: string
+    /** 派生表（FROM (SELECT ...) AS table） */
+    source?: SelectQueryNode
+    columns: ExpressionNode[]
+    joins: JoinNode[]
+    where: ExpressionNode[]
+    groupBy: ExpressionNode[]
+    having: ExpressionNode[]
+    orderBy: OrderByNode[]
+    limit?: number
+    offset?: number
+}
+
+/**
+ * INSERT查询节点
+ */
+export interface InsertQueryNode {
+    type: 'INSERT'
+    table: string
+    columns: string[]
+    rows: ExpressionNode[][]
+    onConflict?: OnConflictNode
+    returning?: ExpressionNode[]
+}
+
+/**
+ * UPDATE查询节点
+ */
+export interface UpdateQueryNode {
+    type: 'UPDATE'
+    with?: CommonTableNode[]
+    table: string
+    set: AssignmentNode[]
+    where: ExpressionNode[]
+    returning?: ExpressionNode[]
+}
+
+/**
+ * DELETE查询节点
+ */
+export interface DeleteQueryNode {
+    type: 'DELETE'
+    with?: CommonTableNode[]
+    table: string
+    where: ExpressionNode[]
+    returning?: ExpressionNode[]
+}
+
+/**
+ * 查询节点
+ */
+export type QueryNode = SelectQueryNode | InsertQueryNode | UpdateQueryNode | DeleteQueryNode
+
+/**
+ * 编译结果
+ */
+export interface CompiledQuery {
+    sql: string
+    params: any[]
+}
+
+/**
+ * 编译上下文，在一次编译过程中收集参数
+ */
+export interface CompileContext {
+    params: any[]
+}
+
+/**
+ * where() 对象语法中所有列都支持的运算符
+ */
+export interface WhereOperators<V> {
+    $eq?: V
+    $neq?: V
+    $gt?: V
+    $gte?: V
+    $lt?: V
+    $lte?: V
+    /** 空数组表示恒假，也可以传入子查询或SQL片段 */
+    $in?: V[] | Subquery | SqlFragment
+    /** 空数组表示恒真，也可以传入子查询或SQL片段 */
+    $nin?: V[] | Subquery | SqlFragment
+    /** [下限, 上限]，包含边界 */
+    $between?: [V, V]
+    $isNull?: boolean
+}
+
+/**
+ * 全文检索选项
+ */
+export interface TextSearchOptions {
+    query: string
+    /** 文本搜索配置，如 'english'、'simple'，默认使用数据库的 default_text_search_config */
+    config?: string
+}
+
+/**
+ * 字符串列支持的运算符
+ */
+export interface StringOperators {
+    $like?: string
+    $notLike?: string
+    $ilike?: string
+    /** POSIX 正则匹配 */
+    $regex?: string
+    /** 忽略大小写的 POSIX 正则匹配 */
+    $iregex?: string
+    /** to_tsvector(列) @@ plainto_tsquery(查询) */
+    $textSearch?: string | TextSearchOptions
+}
+
+/**
+ * 数组列支持的运算符
+ */
+export interface ArrayOperators<E> {
+    /** 包含所有给定元素（@>） */
+    $contains?: E[]
+    /** 所有元素都在给定数组中（<@） */
+    $containedBy?: E[]
+    /** 至少有一个共同元素（&&） */
+    $overlap?: E[]
+}
+
+/**
+ * JSON 列支持的运算符
+ */
+export interface JsonOperators<V> {
+    /** 顶层存在给定的键（?） */
+    $hasKey?: string
+    /** 包含给定的 JSON 结构（@>） */
+    $jsonContains?: Partial<V> | any[]
+    /** JSON 路径表达式有匹配项（@?），如 '$.tags[*] ? (@ == "sale")' */
+    $path?: string
+}
+
+/**
+ * 按列类型提供的运算符，数组列提供数组运算符，对象列提供 JSON 运算符
+ */
+export type ColumnOperators<V> = WhereOperators<V> & (
+    0 extends (1 & V)
+        ? StringOperators & ArrayOperators<any> & JsonOperators<any>
+        : [NonNullable<V>] extends [readonly (infer E)[]]
+            ? ArrayOperators<E>
+            : [NonNullable<V>] extends [string]
+                ? StringOperators
+                : [NonNullable<V>] extends [Date | Buffer]
+                    ? {}
+                    : [NonNullable<V>] extends [Record<string, any>]
+                        ? JsonOperators<NonNullable<V>>
+                        : {}
+)
+
+/**
+ * where() 对象语法
+ * 同一对象中的条件以 AND 组合，$and / $or / $not 可以任意嵌套
+ * @example
+ * {
+ *   status: 'active',
+ *   $or: [{ role: 'admin' }, { age: { $gte: 18 }, $not: { banned: true } }]
+ * }
+ */
+export type WhereCondition<T> = {
+    [K in keyof T]?: T[K] | ColumnOperators<T[K]>
+} & {
+    /** 所有条件都成立，空数组表示恒真 */
+    $and?: WhereCondition<T>[]
+    /** 任一条件成立，空数组表示恒假 */
+    $or?: WhereCondition<T>[]
+    /** 条件不成立 */
+    $not?: WhereCondition<T>
+}
+
+/**
+ * select() 的别名映射：结果字段名到列名或SQL片段
+ * @example
+ * { total: 'amount', orders: sql<number>`COUNT(*)` }
+ */
+export type SelectAliases<T> = Record<string, (keyof T & string) | SqlFragment<any>>
+
+/**
+ * select() 接受的参数：列名、SQL片段或别名映射
+ */
+export type SelectColumn<T> = (keyof T & string) | SqlFragment<any> | SelectAliases<T>
+
+/**
+ * 别名映射对应的行类型
+ * @private
+ */
+type AliasedRow<T, A> = {
+    [P in keyof A]: A[P] extends AggregateFragment<infer F, infer K>
+        ? AggregateValue<F, K extends keyof T ? T[K] : unknown>
+        : A[P] extends SqlFragment<infer V>
+            ? V
+            : A[P] extends keyof T ? T[A[P]] : never
+}
+
+/**
+ * 联合类型转换为交叉类型
+ * @private
+ */
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (x: infer I) => void ? I : never
+
+/**
+ * select() 选择的列对应的行类型
+ * 列名取原类型，别名取所引用列或片段的类型，没有别名的SQL片段不出现在结果类型中
+ */
+export type SelectedRow<T, C extends SelectColumn<T>[]> = C extends []
+    ? T
+    : Pick<T, Extract<C[number], keyof T>>
+        & UnionToIntersection<C[number] extends infer A ? A extends string | SqlFragment<any> ? never : AliasedRow<T, A> : never>
+
+/**
+ * select() / returning() 附加到构建器类型上的结果行类型
+ * 只存在于类型中，运行时没有该属性；多次调用 select() 时各次的行类型合并
+ */
+export interface WithResult<TRow> {
+    readonly __result: TRow
+}
+
+/**
+ * 构建器的结果行类型，没有调用 select() / returning() 时为整行
+ * @example
+ * async execMany(): Promise<ResultOf<this, T>[]>
+ */
+export type ResultOf<B, T> = B extends WithResult<infer TRow> ? TRow : T
+
+/**
+ * returning() 选择的列对应的行类型，'*' 表示整行
+ */
+export type ReturningRow<T, K> = '*' extends K ? T : Pick<T, Extract<K, keyof T>>
+
+/**
+ * 键集分页的排序列，可以指定方向，默认为 ASC
+ */
+export type CursorOrder<T> = (keyof T & string) | [keyof T & string, OrderDirection]
+
+/**
+ * 键集（游标）分页选项
+ * 排序列的组合必须唯一（通常以主键结尾）且不为 NULL
+ */
+export interface CursorPaginateOptions<T> {
+    /** 每页行数 */
+    first: number
+    /** 上一页返回的 nextCursor，第一页不传 */
+    cursor?: string | null
+    /** 排序列，不传时使用 orderBy() 设置的列 */
+    orderBy?: CursorOrder<T>[]
+}
+
+/**
+ * 页码分页选项
+ */
+export interface PagePaginateOptions {
+    /** 页码，从 1 开始 */
+    page: number
+    pageSize: number
+}
+
+/**
+ * 键集分页结果
+ */
+export interface CursorPage<R> {
+    items: R[]
+    /** 下一页的游标，没有更多数据时为 null */
+    nextCursor: string | null
+    hasMore: boolean
+}
+
+/**
+ * 页码分页结果
+ */
+export interface OffsetPage<R> {
+    items: R[]
+    /** 满足条件的总行数 */
+    total: number
+    /** 总页数 */
+    pages: number
+}
+
+/**
+ * UPSERT 选项
+ */
+export interface UpsertOptions<T> {
+    /** 冲突目标列 */
+    columns?: (keyof T)[]
+    /** 冲突目标约束名（ON CONFLICT ON CONSTRAINT），仅 PostgreSQL 支持 */
+    constraint?: string
+    /** 部分唯一索引的谓词，冲突目标为该索引时需要与索引定义一致 */
+    where?: WhereCondition<T> | SqlFragment
+    /**
+     * 冲突时更新的列，不设置时忽略冲突
+     * 列名数组使用各自插入行的值（EXCLUDED.col），对象可以为每列指定值或 sql 表达式
+     */
+    update?: (keyof T)[] | { [K in keyof T]?: T[K] | SqlFragment }
+    /** 只在满足条件时更新，不满足时保留原行 */
+    updateWhere?: WhereCondition<T> | SqlFragment
+}
+
+/**
+ * 表关系（由内省根据外键生成）
+ * belongsTo 表示本表列引用关联表，hasMany 表示关联表的列引用本表
+ */
+export interface Relation {
+    kind: 'belongsTo' | 'hasMany'
+    /** 关联表 */
+    table: string
+    /** 本表的列 */
+    columns: readonly string[]
+    /** 关联表中对应的列 */
+    references: readonly string[]
+}
+
+/**
+ * 关系名到表关系的映射
+ */
+export type RelationMap = Record<string, Relation>
+
+/**
+ * 子查询：任意 SELECT 查询的SQL生成器或查询构建器
+ */
+export interface Subquery {
+    toQuery(): QueryNode
+}
+
+/**
+ * 创建列引用节点
+ * 支持 'column'、'table.column'、'*' 和 'table.*' 形式
+ * @example
+ * column('users.id') // { kind: 'column', table: 'users', name: 'id' }
+ */
+export function column(name: string): ColumnNode | StarNode {
+    const dot = name.lastIndexOf('.')
+    const table = dot > 0 ? name.slice(0, dot) : undefined
+    const columnName = dot > 0 ? name.slice(dot + 1) : name
+    if (columnName === '*') {
+        return { kind: 'star', table }
+    }
+    return { kind: 'column', name: columnName, table }
+}
+
+/**
+ * 创建参数值节点
+ */
+export function value(val: any): ValueNode {
+    return { kind: 'value', value: val }
+}
+
+/**
+ * 创建原始SQL片段节点
+ */
+export function raw(sql: string): RawNode {
+    return { kind: 'raw', sql }
+}
+
+/**
+ * 参数化的SQL片段，由 sql`...` 模板创建
+ * 可以传给 where()、orWhere()、join()、select()、groupBy() 和 orderBy()
+ * @template V 片段作为查询列时的值类型，用于推断 select() 的结果类型
+ */
+export class SqlFragment<V = unknown> {
+    /** 仅用于类型推断，运行时不存在 */
+    declare readonly __value?: V
+
+    constructor(readonly node: ExpressionNode) {}
+}
+
+/**
+ * 将模板插值转换为表达式节点
+ * @private
+ */
+function toExpression(val: unknown): ExpressionNode {
+    if (val instanceof SqlGenerator) {
+        return { kind: 'subquery', query: toSubquery(val) }
+    }
+    return val instanceof SqlFragment ? val.node : value(val)
+}
+
+/**
+ * 构建子查询的AST，只能是 SELECT 查询
+ * @private
+ */
+function toSubquery(query: Subquery): SelectQueryNode {
+    const node = query.toQuery()
+    if (node.type !== 'SELECT') {
+        throw new Error('Subquery must be a SELECT query')
+    }
+    return node
+}
+
+/**
+ * 将 $in / $nin 的非数组取值转换为子查询或SQL片段
+ * @private
+ */
+function toInValues(op: string, val: unknown): SelectQueryNode | ExpressionNode[] {
+    if (val instanceof SqlFragment) {
+        return [val.node]
+    }
+    if (val !== null && typeof val === 'object' && typeof (val as Subquery).toQuery === 'function') {
+        return toSubquery(val as Subquery)
+    }
+    throw new Error(`${op} expects an array, a subquery or an SQL fragment`)
+}
+
+/**
+ * 参数化SQL模板
+ * 插值编译为参数占位符，sql.id() 插入标识符，嵌套的片段原样合并，SQL生成器作为带括号的子查询插入，
+ * 占位符在编译时按整个查询统一编号
+ * @example
+ * sql`${sql.id('users.age')} > ${18} AND ${sql`status = ${'active'}`}`
+ * // PostgreSQL: "users"."age" > $1 AND status = $2
+ * // 作为查询列时可以指定值类型
+ * query.select({ total: sql<number>`SUM(${sql.id('amount')})` })
+ */
+export function sql<V = unknown>(strings: TemplateStringsArray, ...values: unknown[]): SqlFragment<V> {
+    return new SqlFragment<V>({ kind: 'fragment', strings: [...strings], values: values.map(toExpression) })
+}
+
+/**
+ * 创建标识符片段，按方言引用
+ * 支持 'column'、'table.column' 和 'table.*' 形式
+ * @example
+ * sql`SELECT ${sql.id('orders.total')} FROM orders`
+ */
+sql.id = function id(name: string): SqlFragment {
+    if (!name) {
+        throw new Error('Identifier must be a non-empty string')
+    }
+    return new SqlFragment(column(name))
+}
+
+/**
+ * 引用 UPSERT 中待插入行的列，PostgreSQL / SQLite 编译为 EXCLUDED.col，MySQL 编译为 VALUES(col)
+ * @example
+ * query.insert(row, { onConflict: { columns: ['key'], update: { count: sql`${sql.id('counters.count')} + ${sql.excluded('count')}` } } })
+ */
+sql.excluded = function excluded(name: string): SqlFragment {
+    if (!name) {
+        throw new Error('Identifier must be a non-empty string')
+    }
+    return new SqlFragment({ kind: 'excluded', name })
+}
+
+/**
+ * 聚合函数片段，记录聚合函数和列名用于推断结果类型
+ * @template F 聚合函数
+ * @template K 列名，COUNT(*) 时为 '*'
+ */
+export class AggregateFragment<F extends AggregateFunction, K extends string> extends SqlFragment<AggregateValue<F, unknown>> {
+    /** 仅用于类型推断，运行时不存在 */
+    declare readonly __aggregate?: [F, K]
+}
+
+/**
+ * 聚合函数的结果类型
+ * COUNT 总是返回数字，其他聚合在没有行时返回 null，MIN / MAX 保留列的类型
+ */
+export type AggregateValue<F extends AggregateFunction, V> = F extends 'COUNT'
+    ? number
+    : F extends 'SUM' | 'AVG'
+        ? number | null
+        : V | null
+
+/**
+ * 创建聚合函数片段
+ * @private
+ */
+function aggregate<F extends AggregateFunction, K extends string>(fn: F, name: K, distinct: boolean = false): AggregateFragment<F, K> {
+    const argument = column(name)
+    if (argument.kind === 'star' && fn !== 'COUNT') {
+        throw new Error(`${fn}() requires a column`)
+    }
+    return new AggregateFragment<F, K>({ kind: 'aggregate', fn, argument, distinct })
+}
+
+/**
+ * COUNT(*) 或 COUNT(列)，COUNT(列) 不计入 NULL
+ * @example
+ * query.select('status', { total: count() }).groupBy('status')
+ */
+export function count<K extends string = '*'>(name?: K): AggregateFragment<'COUNT', K> {
+    return aggregate('COUNT', (name ?? '*') as K)
+}
+
+/**
+ * COUNT(DISTINCT 列)
+ */
+export function countDistinct<K extends string>(name: K): AggregateFragment<'COUNT', K> {
+    return aggregate('COUNT', name, true)
+}
+
+/**
+ * SUM(列)
+ */
+export function sum<K extends string>(name: K): AggregateFragment<'SUM', K> {
+    return aggregate('SUM', name)
+}
+
+/**
+ * AVG(列)
+ */
+export function avg<K extends string>(name: K): AggregateFragment<'AVG', K> {
+    return aggregate('AVG', name)
+}
+
+/**
+ * MIN(列)，结果类型与列相同
+ */
+export function min<K extends string>(name: K): AggregateFragment<'MIN', K> {
+    return aggregate('MIN', name)
+}
+
+/**
+ * MAX(列)，结果类型与列相同
+ */
+export function max<K extends string>(name: K): AggregateFragment<'MAX', K> {
+    return aggregate('MAX', name)
+}
+
+/**
+ * 页码分页查询中保存总行数的列名
+ * @private
+ */
+const PAGE_TOTAL_COLUMN = '__typosql_total'
+
+/**
+ * 键集分页的排序列
+ * 条件和排序使用（可能带表名的）列节点，游标值按结果行中不带表名的列名读取
+ * @private
+ */
+interface CursorColumn {
+    column: ColumnNode
+    key: string
+    direction: OrderDirection
+}
+
+/**
+ * 将最后一行的排序列值编码为游标
+ * @private
+ */
+function encodeCursor(row: Record<string, any>, order: CursorColumn[]): string {
+    const values = order.map(({ key: name }) => {
+        if (!(name in row)) {
+            throw new Error(`Cursor column "${name}" is missing from the result rows`)
+        }
+        if (row[name] === null || row[name] === undefined) {
+            throw new Error(`Cursor column "${name}" is null; keyset pagination requires non-null order columns`)
+        }
+        return row[name]
+    })
+    return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+/**
+ * 解码游标为排序列的值
+ * @private
+ */
+function decodeCursor(cursor: string, length: number): any[] {
+    let values: unknown
+    try {
+        values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    } catch {
+        throw new Error('Invalid pagination cursor')
+    }
+    if (!Array.isArray(values) || values.length !== length) {
+        throw new Error('Invalid pagination cursor')
+    }
+    return values
+}
+
+/**
+ * 查询编译器基类
+ * 负责将AST编译为SQL文本和参数，各适配器通过继承提供标识符引用和占位符规则，
+ * 方言差异较大的子句（如UPSERT）可以覆盖对应的编译方法
+ */
+export abstract class QueryCompiler {
+    /**
+     * 引用单个标识符
+     * @param identifier 标识符
+     */
+    abstract quoteIdentifier(identifier: string): string
+
+    /**
+     * 生成参数占位符
+     * @param index 参数序号，从1开始
+     */
+    abstract placeholder(index: number): string
+
+    /**
+     * 编译查询
+     * @param query 查询节点
+     * @example
+     * const { sql, params } = compiler.compile(generator.toQuery())
+     */
+    compile(query: QueryNode): CompiledQuery {
+        const context: CompileContext = { params: [] }
+        const sql = this.compileQuery(query, context)
+        return { sql, params: context.params }
+    }
+
+    /**
+     * 引用可能带有模式/表前缀的名称，如 'public.users'
+     */
+    quoteName(name: string): string {
+        return name.split('.').map(part => this.quoteIdentifier(part)).join('.')
+    }
+
+    /**
+     * 添加参数并返回占位符
+     */
+    protected addParam(val: any, context: CompileContext): string {
+        context.params.push(val)
+        return this.placeholder(context.params.length)
+    }
+
+    protected compileQuery(query: QueryNode, context: CompileContext): string {
+        switch (query.type) {
+            case 'SELECT':
+                return this.compileSelect(query, context)
+            case 'INSERT':
+                return this.compileInsert(query, context)
+            case 'UPDATE':
+                return this.compileUpdate(query, context)
+            case 'DELETE':
+                return this.compileDelete(query, context)
+            default:
+                throw new Error(`Unsupported query type: ${(query as QueryNode).type}`)
+        }
+    }
+
+    protected compileSelect(query: SelectQueryNode, context: CompileContext): string {
+        // 按SQL中出现的顺序编译，保证占位符编号与参数顺序一致
+        const ctes = this.compileWith(query.with, context)
+        const columns = query.columns.length > 0
+            ? query.columns.map(col => this.compileExpression(col, context)).join(', ')
+            : '*'
+        const from = query.source
+            ? `(${this.compileSelect(query.source, context)}) AS ${this.quoteIdentifier(query.table)}`
+            : this.quoteName(query.table)
+
+        let sql = `${ctes}SELECT ${columns} FROM ${from}`
+
+        if (query.joins.length > 0) {
+            sql += ' ' + query.joins.map(join =>
+                `${join.type} JOIN ${this.quoteName(join.table)}${join.alias ? ` AS ${this.quoteIdentifier(join.alias)}` : ''} ON ${this.compileExpression(join.on, context)}`
+            ).join(' ')
+        }
+
+        sql += this.compileWhere(query.where, context)
+
+        if (query.groupBy.length > 0) {
+            sql += ' GROUP BY ' + query.groupBy.map(col => this.compileExpression(col, context)).join(', ')
+        }
+
+        if (query.having.length > 0) {
+            sql += ' HAVING ' + query.having.map(condition => this.compileCondition(condition, context)).join(' AND ')
+        }
+
+        if (query.orderBy.length > 0) {
+            sql += ' ORDER BY ' + query.orderBy.map(order =>
+                `${this.compileExpression(order.expression, context)} ${order.direction}`
+            ).join(', ')
+        }
+
+        sql += this.compileLimit(query.limit, query.offset)
+
+        return sql
+    }
+
+    /**
+     * 编译WITH子句，任一公用表表达式为递归时使用 WITH RECURSIVE
+     */
+    protected compileWith(ctes: CommonTableNode[] | undefined, context: CompileContext): string {
+        if (!ctes || ctes.length === 0) return ''
+        const recursive = ctes.some(cte => cte.recursive) ? 'RECURSIVE ' : ''
+        const definitions = ctes.map(cte => {
+            let body = this.compileSelect(cte.query, context)
+            if (cte.recursive) {
+                body += ` ${cte.distinct ? 'UNION' : 'UNION ALL'} ${this.compileSelect(cte.recursive, context)}`
+            }
+            return `${this.quoteIdentifier(cte.name)} AS (${body})`
+        })
+        return `WITH ${recursive}${definitions.join(', ')} `
+    }
+
+    protected compileLimit(limit?: number, offset?: number): string {
+        let sql = ''
+        if (limit && limit > 0) {
+            sql += ` LIMIT ${Math.floor(limit)}`
+        }
+        if (offset && offset > 0) {
+            sql += ` OFFSET ${Math.floor(offset)}`
+        }
+        return sql
+    }
+
+    protected compileInsert(query: InsertQueryNode, context: CompileContext): string {
+        if (query.rows.length === 0) {
+            throw new Error('No data to insert')
+        }
+
+        const columns = query.columns.map(col => this.quoteIdentifier(col)).join(', ')
+        const values = query.rows.map(row =>
+            `(${row.map(val => this.compileExpression(val, context)).join(', ')})`
+        )
+
+        let sql = `INSERT INTO ${this.quoteName(query.table)} (${columns}) VALUES ${values.join(', ')}`
+
+        if (query.onConflict) {
+            sql += this.compileOnConflict(query.onConflict, context)
+        }
+
+        sql += this.compileReturning(query.returning, context)
+        return sql
+    }
+
+    /**
+     * 编译冲突处理子句，默认使用 ON CONFLICT 语法（PostgreSQL / SQLite）
+     */
+    protected compileOnConflict(onConflict: OnConflictNode, context: CompileContext): string {
+        let sql = ' ON CONFLICT'
+        if (onConflict.constraint) {
+            sql += ` ON CONSTRAINT ${this.quoteIdentifier(onConflict.constraint)}`
+        } else if (onConflict.columns.length > 0) {
+            sql += ` (${onConflict.columns.map(col => this.quoteIdentifier(col)).join(', ')})`
+            sql += this.compileWhere(onConflict.where ?? [], context)
+        }
+        if (onConflict.update && onConflict.update.length > 0) {
+            sql += ` DO UPDATE SET ${this.compileAssignments(onConflict.update, context)}`
+            sql += this.compileWhere(onConflict.updateWhere ?? [], context)
+        } else {
+            sql += ' DO NOTHING'
+        }
+        return sql
+    }
+
+    protected compileUpdate(query: UpdateQueryNode, context: CompileContext): string {
+        if (query.set.length === 0) {
+            throw new Error('No update data provided')
+        }
+
+        let sql = this.compileWith(query.with, context)
+        sql += `UPDATE ${this.quoteName(query.table)} SET ${this.compileAssignments(query.set, context)}`
+        sql += this.compileWhere(query.where, context)
+        sql += this.compileReturning(query.returning, context)
+        return sql
+    }
+
+    protected compileDelete(query: DeleteQueryNode, context: CompileContext): string {
+        let sql = `${this.compileWith(query.with, context)}DELETE FROM ${this.quoteName(query.table)}`
+        sql += this.compileWhere(query.where, context)
+        sql += this.compileReturning(query.returning, context)
+        return sql
+    }
+
+    /**
+     * 编译RETURNING子句，默认使用 PostgreSQL / SQLite 语法
+     */
+    protected compileReturning(returning: ExpressionNode[] | undefined, context: CompileContext): string {
+        if (!returning || returning.length === 0) return ''
+        return ' RETURNING ' + returning.map(col => this.compileExpression(col, context)).join(', ')
+    }
+
+    protected compileAssignments(assignments: AssignmentNode[], context: CompileContext): string {
+        return assignments
+            .map(assignment => `${this.quoteIdentifier(assignment.column)} = ${this.compileExpression(assignment.value, context)}`)
+            .join(', ')
+    }
+
+    protected compileWhere(conditions: ExpressionNode[], context: CompileContext): string {
+        if (conditions.length === 0) return ''
+        return ' WHERE ' + conditions.map(condition => this.compileCondition(condition, context)).join(' AND ')
+    }
+
+    /**
+     * 编译作为条件使用的表达式，OR组合需要加括号以保持与外层AND的优先级
+     */
+    protected compileCondition(node: ExpressionNode, context: CompileContext): string {
+        const sql = this.compileExpression(node, context)
+        // SQL片段中可能包含OR，同样需要加括号
+        return node.kind === 'or' || node.kind === 'fragment' ? `(${sql})` : sql
+    }
+
+    protected compileExpression(node: ExpressionNode, context: CompileContext): string {
+        switch (node.kind) {
+            case 'column':
+                return node.table
+                    ? `${this.quoteName(node.table)}.${this.quoteIdentifier(node.name)}`
+                    : this.quoteIdentifier(node.name)
+            case 'star':
+                return node.table ? `${this.quoteName(node.table)}.*` : '*'
+            case 'value':
+                return this.addParam(node.value, context)
+            case 'raw':
+                return node.sql
+            case 'comparison':
+                return `${this.compileExpression(node.left, context)} ${node.operator} ${this.compileExpression(node.right, context)}`
+            case 'in': {
+                const left = this.compileExpression(node.left, context)
+                const values = Array.isArray(node.values)
+                    ? node.values.map(val => this.compileExpression(val, context)).join(', ')
+                    : this.compileSelect(node.values, context)
+                return `${left} ${node.negated ? 'NOT IN' : 'IN'} (${values})`
+            }
+            case 'between':
+                return `${this.compileExpression(node.left, context)} BETWEEN ${this.compileExpression(node.low, context)} AND ${this.compileExpression(node.high, context)}`
+            case 'predicate':
+                return this.compilePredicate(node, context)
+            case 'isNull':
+                return `${this.compileExpression(node.left, context)} IS ${node.negated ? 'NOT NULL' : 'NULL'}`
+            case 'and':
+            case 'or':
+                return node.conditions
+                    .map(condition => this.compileCondition(condition, context))
+                    .join(node.kind === 'and' ? ' AND ' : ' OR ')
+            case 'not':
+                return `NOT (${this.compileExpression(node.condition, context)})`
+            case 'aggregate':
+                return `${node.fn}(${node.distinct ? 'DISTINCT ' : ''}${this.compileExpression(node.argument, context)})`
+            case 'alias':
+                return `${this.compileExpression(node.expression, context)} AS ${this.quoteIdentifier(node.alias)}`
+            case 'fragment':
+                return node.strings.reduce((sql, part, i) =>
+                    sql + this.compileExpression(node.values[i - 1], context) + part
+                )
+            case 'excluded':
+                return this.compileExcluded(node)
+            case 'subquery':
+                return `(${this.compileSelect(node.query, context)})`
+            case 'exists':
+                return `${node.negated ? 'NOT EXISTS' : 'EXISTS'} (${this.compileSelect(node.query, context)})`
+            default:
+                throw new Error(`Unsupported expression: ${(node as ExpressionNode).kind}`)
+        }
+    }
+
+    /**
+     * 编译 UPSERT 中待插入行的列引用，默认使用 EXCLUDED 伪表（PostgreSQL / SQLite）
+     */
+    protected compileExcluded(node: ExcludedNode): string {
+        return `EXCLUDED.${this.quoteIdentifier(node.name)}`
+    }
+
+    /**
+     * 编译方言相关的谓词，默认不支持，由支持的方言覆盖
+     */
+    protected compilePredicate(node: PredicateNode, _context: CompileContext): string {
+        throw new Error(`Unsupported predicate for this dialect: ${node.operator}`)
+    }
+}
+
+/**
+ * SQL生成器基类
+ * 以链式调用收集查询状态并构建AST，由适配器提供的编译器生成具体方言的SQL
+ * @template T 查询返回的行类型
+ * @template TInsert 插入数据类型（如内省生成的 NewUsers），默认为 Partial<T>
+ * @template TUpdate 更新数据类型（如内省生成的 UsersPatch），默认为 Partial<T>
+ * @template R 表关系（如内省生成的 typeof UsersRelations）
+ */
+export abstract class SqlGenerator<
+    T extends Record<string, any>,
+    TInsert extends Record<string, any> = Partial<T>,
+    TUpdate extends Record<string, any> = Partial<T>,
+    R extends RelationMap = {}
+> {
+    protected _type: QueryType = 'SELECT'
+    protected _with: CommonTableNode[] = []
+    protected _from: string = ''
+    protected _source?: SelectQueryNode
+    protected _select: ExpressionNode[] = []
+    protected _joins: JoinNode[] = []
+    protected _where: ExpressionNode[] = []
+    protected _groupBy: ExpressionNode[] = []
+    protected _having: ExpressionNode[] = []
+    protected _orderBy: OrderByNode[] = []
+    protected _limit: number = 0
+    protected _offset: number = 0
+    protected _insertData?: TInsert[]
+    protected _updateData?: TUpdate
+    protected _upsertConflict?: UpsertOptions<T>
+    protected _returning: ExpressionNode[] = []
+    protected readonly compiler: QueryCompiler
+    protected readonly relations: R
+
+    constructor(table: string, compiler: QueryCompiler, relations?: R) {
+        this._from = table
+        this.compiler = compiler
+        this.relations = relations || ({} as R)
+    }
+
+    /**
+     * 选择要查询的列
+     * 查询构建器的 execOne() / execMany() 的结果类型随之变为所选的列
+     * @example
+     * query.select('id', 'name')  // 字段名会有类型提示，结果类型为 Pick<T, 'id' | 'name'>
+     * query.select('id', { total: 'amount', orders: sql<number>`COUNT(*)` })
+     * // SELECT "id", "amount" AS "total", COUNT(*) AS "orders"
+     */
+    select<C extends SelectColumn<T>[]>(...columns: C): this & WithResult<SelectedRow<T, C>> {
+        if (!columns.length) {
+            this._select.push({ kind: 'star' })
+            return this as this & WithResult<SelectedRow<T, C>>
+        }
+        for (const col of columns) {
+            if (typeof col === 'string') {
+                this._select.push(column(col))
+            } else if (col instanceof SqlFragment) {
+                this._select.push(col.node)
+            } else {
+                this._select.push(...Object.entries(col).map(([alias, expression]): ExpressionNode => ({
+                    kind: 'alias',
+                    expression: expression instanceof SqlFragment ? expression.node : column(expression),
+                    alias
+                })))
+            }
+        }
+        return this as this & WithResult<SelectedRow<T, C>>
+    }
+
+    /**
+     * 设置查询的表，或以子查询作为派生表
+     * 子查询的AST在调用时生成，之后修改子查询不影响当前查询
+     * @param alias 派生表的别名，列名可以用 'alias.column' 限定
+     * @example
+     * query.from('users')
+     * query.from(orders.select('user_id', { total: sql<number>`SUM(${sql.id('amount')})` }).groupBy('user_id'), 'totals')
+     * // SELECT * FROM (SELECT "user_id", SUM("amount") AS "total" FROM "orders" GROUP BY "user_id") AS "totals"
+     */
+    from(table: string): this
+    from(query: Subquery, alias: string): this
+    from(table: string | Subquery, alias?: string): this {
+        if (typeof table === 'string') {
+            this._from = table
+            this._source = undefined
+            return this
+        }
+        if (!alias) {
+            throw new Error('Derived table requires an alias')
+        }
+        this._from = alias
+        this._source = toSubquery(table)
+        return this
+    }
+
+    /**
+     * 添加JOIN子句
+     * @example
+     * query.join('orders', sql`${sql.id('orders.user_id')} = ${sql.id('users.id')} AND ${sql.id('orders.status')} = ${status}`)
+     */
+    join(table: string, condition: string | SqlFragment, type: JoinType = 'INNER'): this {
+        this._joins.push({ type, table, on: typeof condition === 'string' ? raw(condition) : condition.node })
+        return this
+    }
+
+    /**
+     * 按表关系添加JOIN，连接条件由关系元数据生成
+     * 关系名与关联表名不同时，以关系名作为关联表的别名
+     * @param name 关系名
+     * @param type JOIN类型，默认为INNER
+     * @example
+     * PostgreSQLQueryBuilder.from<Orders, NewOrders, OrdersPatch, typeof OrdersRelations>('orders', adapter, OrdersRelations)
+     *   .joinRelation('user')
+     * // INNER JOIN "users" AS "user" ON "user"."id" = "orders"."user_id"
+     */
+    joinRelation<K extends keyof R & string>(name: K, type: JoinType = 'INNER'): this {
+        const relation = this.relations[name]
+        if (!relation) {
+            throw new Error(`Unknown relation: ${name}`)
+        }
+
+        const alias = name !== relation.table ? name : undefined
+        const target = alias || relation.table
+        const conditions: ExpressionNode[] = relation.columns.map((col, i) => ({
+            kind: 'comparison',
+            left: { kind: 'column', name: relation.references[i], table: target },
+            operator: '=',
+            right: { kind: 'column', name: col, table: this._from }
+        }))
+
+        this._joins.push({
+            type,
+            table: relation.table,
+            alias,
+            on: conditions.length === 1 ? conditions[0] : { kind: 'and', conditions }
+        })
+        return this
+    }
+
+    /**
+     * 按表关系添加LEFT JOIN，没有关联记录的行也会保留
+     * @param relation 关系名
+     * @example
+     * PostgreSQLQueryBuilder.from<Users, NewUsers, UsersPatch, typeof UsersRelations>('users', adapter, UsersRelations)
+     *   .with('orders')
+     * // LEFT JOIN "orders" ON "orders"."user_id" = "users"."id"
+     */
+    with<K extends keyof R & string>(relation: K): this
+    /**
+     * 定义公用表表达式（WITH），可以用于 SELECT、UPDATE 和 DELETE
+     * @param name 公用表表达式的名称
+     * @param query 公用表表达式的查询
+     * @example
+     * query.with('recent', orders.where({ created_at: { $gt: since } })).from('recent')
+     * // WITH "recent" AS (SELECT * FROM "orders" WHERE "created_at" > $1) SELECT * FROM "recent"
+     */
+    with(name: string, query: Subquery): this
+    with(name: string, query?: Subquery): this {
+        if (query === undefined) {
+            return this.joinRelation(name as keyof R & string, 'LEFT')
+        }
+        this._with.push({ name, query: toSubquery(query) })
+        return this
+    }
+
+    /**
+     * 定义递归公用表表达式（WITH RECURSIVE），常用于遍历树形表
+     * @param name 公用表表达式的名称，递归部分通过该名称引用上一轮的结果
+     * @param base 初始查询
+     * @param recursive 递归查询
+     * @param options distinct 为 true 时使用 UNION 去除重复行，默认 UNION ALL
+     * @example
+     * const root = new PostgreSQLSqlGenerator<Category>('categories').select('id', 'parent_id', 'name').where({ id: rootId })
+     * const children = new PostgreSQLSqlGenerator<Category>('categories')
+     *   .select(sql.id('categories.id'), sql.id('categories.parent_id'), sql.id('categories.name'))
+     *   .join('tree', sql`${sql.id('categories.parent_id')} = ${sql.id('tree.id')}`)
+     * query.withRecursive('tree', root, children).from('tree')
+     * // WITH RECURSIVE "tree" AS (SELECT ... WHERE "id" = $1 UNION ALL SELECT ... INNER JOIN "tree" ON ...) SELECT * FROM "tree"
+     */
+    withRecursive(name: string, base: Subquery, recursive: Subquery, options: { distinct?: boolean } = {}): this {
+        this._with.push({ name, query: toSubquery(base), recursive: toSubquery(recursive), distinct: options.distinct })
+        return this
+    }
+
+    /**
+     * 添加WHERE条件
+     * @example
+     * // 使用对象条件
+     * query.where({ status: 'active', age: 18 })
+     * // 使用参数化的SQL片段
+     * query.where(sql`age > ${minAge}`)
+     * // 使用字符串条件（原样输出，不要拼接用户输入）
+     * query.where('age > 18')
+     */
+    where(condition: string | SqlFragment | WhereCondition<T>): this {
+        if (typeof condition === 'string') {
+            this._where.push(raw(condition))
+        } else if (condition instanceof SqlFragment) {
+            this._where.push(condition.node)
+        } else {
+            this._where.push(...this.buildConditions(condition))
+        }
+        return this
+    }
+
+    /**
+     * 添加EXISTS条件，子查询可以通过 sql.id('table.column') 引用外层查询的列
+     * @example
+     * users.whereExists(orders.where(sql`${sql.id('orders.user_id')} = ${sql.id('users.id')}`))
+     * // WHERE EXISTS (SELECT * FROM "orders" WHERE "orders"."user_id" = "users"."id")
+     */
+    whereExists(query: Subquery): this {
+        this._where.push({ kind: 'exists', query: toSubquery(query), negated: false })
+        return this
+    }
+
+    /**
+     * 添加NOT EXISTS条件
+     * @example
+     * users.whereNotExists(orders.where(sql`${sql.id('orders.user_id')} = ${sql.id('users.id')}`))
+     */
+    whereNotExists(query: Subquery): this {
+        this._where.push({ kind: 'exists', query: toSubquery(query), negated: true })
+        return this
+    }
+
+    /**
+     * 添加OR条件：已有的所有WHERE条件作为一组，与新条件以OR组合
+     * 之后再调用 where() 添加的条件与整个OR组合以AND连接
+     * @example
+     * query.where({ status: 'active' }).orWhere({ role: 'admin' })
+     * // WHERE ("status" = $1 OR "role" = $2)
+     * query.where({ a: 1 }).orWhere({ b: 2 }).where({ c: 3 })
+     * // WHERE ("a" = $1 OR "b" = $2) AND "c" = $3
+     */
+    orWhere(condition: string | SqlFragment | WhereCondition<T>): this {
+        const next = typeof condition === 'string'
+            ? raw(condition)
+            : condition instanceof SqlFragment
+                ? condition.node
+                : this.conjunction(this.buildConditions(condition))
+        const current = this.conjunction(this._where)
+
+        // 恒真的条件与任何条件OR后仍为恒真
+        if (!current || !next) {
+            this._where = []
+            return this
+        }
+
+        this._where = [{ kind: 'or', conditions: [current, next] }]
+        return this
+    }
+
+    /**
+     * 添加GROUP BY子句
+     */
+    groupBy(...columns: (keyof T | string | SqlFragment)[]): this {
+        this._groupBy.push(...columns.map(col => col instanceof SqlFragment ? col.node : column(String(col))))
+        return this
+    }
+
+    /**
+     * 添加HAVING条件，对象语法与 where() 相同
+     * 键与 select() 中的别名相同时使用别名对应的表达式，其他键作为列名
+     * @example
+     * query.select('user_id', { total: sum('amount') })
+     *   .groupBy('user_id')
+     *   .having({ total: { $gt: 100 } })
+     * // ... GROUP BY "user_id" HAVING SUM("amount") > $1
+     */
+    having(condition: string | SqlFragment | WhereCondition<Record<string, any>>): this {
+        if (typeof condition === 'string') {
+            this._having.push(raw(condition))
+        } else if (condition instanceof SqlFragment) {
+            this._having.push(condition.node)
+        } else {
+            this._having.push(...this.buildConditions(condition as WhereCondition<T>, key => this.resolveAlias(key)))
+        }
+        return this
+    }
+
+    /**
+     * 添加ORDER BY子句
+     */
+    orderBy(col: keyof T | string | SqlFragment, direction: OrderDirection = 'ASC'): this {
+        this._orderBy.push({ expression: col instanceof SqlFragment ? col.node : column(String(col)), direction })
+        return this
+    }
+
+    /**
+     * 设置LIMIT
+     */
+    limit(limit: number): this {
+        this._limit = limit
+        return this
+    }
+
+    /**
+     * 设置OFFSET
+     */
+    offset(offset: number): this {
+        this._offset = offset
+        return this
+    }
+
+    /**
+     * 插入数据
+     * @param data 要插入的数据
+     * @param options 插入选项
+     */
+    insert(data: TInsert, options?: { onConflict?: UpsertOptions<T> }): this {
+        this._type = 'INSERT'
+        this._insertData = [data]
+        this._upsertConflict = options?.onConflict
+        return this
+    }
+
+    /**
+     * 批量插入数据
+     * @param dataArray 要插入的数据数组
+     * @param options 插入选项
+     */
+    insertMany(dataArray: TInsert[], options?: { onConflict?: UpsertOptions<T> }): this {
+        this._type = 'INSERT'
+        this._insertData = dataArray
+        this._upsertConflict = options?.onConflict
+        return this
+    }
+
+    /**
+     * 更新数据
+     * @param data 要更新的数据
+     */
+    update(data: TUpdate): this {
+        this._type = 'UPDATE'
+        this._updateData = data
+        return this
+    }
+
+    /**
+     * 删除数据
+     */
+    delete(): this {
+        this._type = 'DELETE'
+        return this
+    }
+
+    /**
+     * 设置INSERT / UPDATE / DELETE返回的列，SELECT查询忽略该设置
+     * 查询构建器的 execOne() / execMany() 的结果类型随之变为所选的列
+     * @example
+     * query.insert({ username: 'john' }).returning('id', 'created_at')
+     * // INSERT INTO "users" ("username") VALUES ($1) RETURNING "id", "created_at"
+     * query.where({ id: 1 }).delete().returning('*')
+     */
+    returning<K extends (keyof T & string) | '*'>(...columns: K[]): this & WithResult<ReturningRow<T, K>> {
+        if (columns.length === 0) {
+            throw new Error('returning() requires at least one column')
+        }
+        this._returning = columns.map(col => column(col))
+        return this as this & WithResult<ReturningRow<T, K>>
+    }
+
+    /**
+     * 将对象条件转换为条件节点
+     * @param resolve 将键转换为左侧表达式，默认作为列名
+     * @protected
+     */
+    protected buildConditions(condition: WhereCondition<T>, resolve: (key: string) => ExpressionNode = column): ExpressionNode[] {
+        const nodes: ExpressionNode[] = []
+
+        for (const [key, val] of Object.entries(condition)) {
+            if (key === '$and' || key === '$or' || key === '$not') {
+                const node = this.buildLogical(key, val, resolve)
+                if (node) nodes.push(node)
+                continue
+            }
+
+            const left = resolve(key)
+
+            if (val === null || val === undefined) {
+                nodes.push({ kind: 'isNull', left, negated: false })
+                continue
+            }
+
+            if (typeof val === 'object' && !Array.isArray(val) && !(val instanceof Date) && !Buffer.isBuffer(val)) {
+                for (const [op, opValue] of Object.entries(val as ColumnOperators<any>)) {
+                    const node = this.buildOperator(left, op, opValue)
+                    if (node) nodes.push(node)
+                }
+                continue
+            }
+
+            nodes.push({ kind: 'comparison', left, operator: '=', right: value(val) })
+        }
+
+        return nodes
+    }
+
+    /**
+     * 将 $and / $or / $not 转换为逻辑节点，恒真时返回 null
+     * @protected
+     */
+    protected buildLogical(op: '$and' | '$or' | '$not', operand: any, resolve: (key: string) => ExpressionNode = column): ExpressionNode | null {
+        if (op === '$not') {
+            const condition = this.conjunction(this.buildConditions(operand || {}, resolve))
+            return condition ? { kind: 'not', condition } : raw('FALSE')
+        }
+
+        if (!Array.isArray(operand)) {
+            throw new Error(`${op} expects an array of conditions`)
+        }
+
+        const groups = operand.map(item => this.conjunction(this.buildConditions(item, resolve)))
+        if (op === '$and') {
+            return this.conjunction(groups.filter((group): group is ExpressionNode => group !== null))
+        }
+
+        // 任一分组恒真时整个OR恒真，没有分组时恒假
+        if (groups.some(group => group === null)) return null
+        if (groups.length === 0) return raw('FALSE')
+        return groups.length === 1 ? groups[0] : { kind: 'or', conditions: groups as ExpressionNode[] }
+    }
+
+    /**
+     * 查找 select() 中别名对应的表达式，没有该别名时作为列名
+     * PostgreSQL 的 HAVING 不能引用查询列的别名，需要展开为原表达式
+     * @protected
+     */
+    protected resolveAlias(key: string): ExpressionNode {
+        for (const node of this._select) {
+            if (node.kind === 'alias' && node.alias === key) {
+                return node.expression
+            }
+        }
+        return column(key)
+    }
+
+    /**
+     * 以AND组合多个条件，没有条件（恒真）时返回 null
+     * @protected
+     */
+    protected conjunction(nodes: ExpressionNode[]): ExpressionNode | null {
+        if (nodes.length === 0) return null
+        return nodes.length === 1 ? nodes[0] : { kind: 'and', conditions: nodes }
+    }
+
+    /**
+     * 将单个运算符转换为条件节点
+     * @protected
+     */
+    protected buildOperator(left: ExpressionNode, op: string, opValue: any): ExpressionNode | null {
+        switch (op) {
+            case '$eq':
+                return { kind: 'comparison', left, operator: '=', right: value(opValue) }
+            case '$neq':
+                return { kind: 'comparison', left, operator: '!=', right: value(opValue) }
+            case '$gt':
+                return { kind: 'comparison', left, operator: '>', right: value(opValue) }
+            case '$gte':
+                return { kind: 'comparison', left, operator: '>=', right: value(opValue) }
+            case '$lt':
+                return { kind: 'comparison', left, operator: '<', right: value(opValue) }
+            case '$lte':
+                return { kind: 'comparison', left, operator: '<=', right: value(opValue) }
+            case '$like':
+                return { kind: 'comparison', left, operator: 'LIKE', right: value(opValue) }
+            case '$notLike':
+                return { kind: 'comparison', left, operator: 'NOT LIKE', right: value(opValue) }
+            case '$in':
+                if (!Array.isArray(opValue)) {
+                    return { kind: 'in', left, values: toInValues('$in', opValue), negated: false }
+                }
+                // IN () 不是合法的SQL，空列表不匹配任何行
+                if ((opValue as any[]).length === 0) return raw('FALSE')
+                return { kind: 'in', left, values: (opValue as any[]).map(v => value(v)), negated: false }
+            case '$nin':
+                if (!Array.isArray(opValue)) {
+                    return { kind: 'in', left, values: toInValues('$nin', opValue), negated: true }
+                }
+                if ((opValue as any[]).length === 0) return null
+                return { kind: 'in', left, values: (opValue as any[]).map(v => value(v)), negated: true }
+            case '$between':
+                if (!Array.isArray(opValue) || opValue.length !== 2) {
+                    throw new Error('$between expects [low, high]')
+                }
+                return { kind: 'between', left, low: value(opValue[0]), high: value(opValue[1]) }
+            case '$ilike':
+                return { kind: 'predicate', operator: 'ilike', left, right: value(opValue) }
+            case '$regex':
+                return { kind: 'predicate', operator: 'regex', left, right: value(opValue) }
+            case '$iregex':
+                return { kind: 'predicate', operator: 'iregex', left, right: value(opValue) }
+            case '$contains':
+                return { kind: 'predicate', operator: 'contains', left, right: value(opValue) }
+            case '$containedBy':
+                return { kind: 'predicate', operator: 'containedBy', left, right: value(opValue) }
+            case '$overlap':
+                return { kind: 'predicate', operator: 'overlap', left, right: value(opValue) }
+            case '$hasKey':
+                return { kind: 'predicate', operator: 'hasKey', left, right: value(opValue) }
+            case '$jsonContains':
+                // 显式序列化，避免数组被驱动转换为数据库数组
+                return { kind: 'predicate', operator: 'jsonContains', left, right: value(JSON.stringify(opValue)) }
+            case '$path':
+                return { kind: 'predicate', operator: 'jsonPath', left, right: value(opValue) }
+            case '$textSearch': {
+                const search: TextSearchOptions = typeof opValue === 'string' ? { query: opValue } : opValue
+                return {
+                    kind: 'predicate',
+                    operator: 'textSearch',
+                    left,
+                    right: value(search.query),
+                    config: search.config ? value(search.config) : undefined
+                }
+            }
+            case '$isNull':
+                return { kind: 'isNull', left, negated: !opValue }
+            default:
+                return null
+        }
+    }
+
+    /**
+     * 构建当前查询的AST
+     * 同一个AST可以交给不同方言的编译器编译
+     * @example
+     * const { sql, params } = new MySQLCompiler().compile(pgGenerator.toQuery())
+     */
+    toQuery(): QueryNode {
+        switch (this._type) {
+            case 'SELECT':
+                return {
+                    type: 'SELECT',
+                    with: [...this._with],
+                    table: this._from,
+                    source: this._source,
+                    columns: [...this._select],
+                    joins: [...this._joins],
+                    where: [...this._where],
+                    groupBy: [...this._groupBy],
+                    having: [...this._having],
+                    orderBy: [...this._orderBy],
+                    limit: this._limit || undefined,
+                    offset: this._offset || undefined
+                }
+            case 'INSERT':
+                if (this._with.length > 0) {
+                    throw new Error('with() and withRecursive() are not supported for INSERT queries')
+                }
+                return this.buildInsertQuery()
+            case 'UPDATE':
+                if (!this._updateData) {
+                    throw new Error('No update data provided')
+                }
+                return {
+                    type: 'UPDATE',
+                    with: [...this._with],
+                    table: this._from,
+                    set: Object.entries(this._updateData).map(([key, val]) => ({ column: key, value: value(val) })),
+                    where: [...this._where],
+                    returning: [...this._returning]
+                }
+            case 'DELETE':
+                return {
+                    type: 'DELETE',
+                    with: [...this._with],
+                    table: this._from,
+                    where: [...this._where],
+                    returning: [...this._returning]
+                }
+            default:
+                throw new Error(`Unsupported query type: ${this._type}`)
+        }
+    }
+
+    /**
+     * 执行分页查询，各适配器的 paginate() 传入执行查询的方法
+     * @param queryMany 执行SQL并返回结果行
+     * @protected
+     */
+    protected async executePaginate<TRow>(
+        options: CursorPaginateOptions<T> | PagePaginateOptions,
+        queryMany: (sql: string, params: any[]) => Promise<Record<string, any>[]>
+    ): Promise<CursorPage<TRow> | OffsetPage<TRow>> {
+        if ('page' in options) {
+            const { sql, params } = this.compiler.compile(this.buildPageQuery(options))
+            const rows = await queryMany(sql, params)
+            // 页码超出范围时查询结果中没有总行数
+            let total: number | undefined
+            if (rows.length === 0 && options.page > 1) {
+                const count = this.compiler.compile(this.buildCountQuery())
+                const [row] = await queryMany(count.sql, count.params)
+                total = Number(row?.count ?? 0)
+            }
+            this.clear()
+            return this.toOffsetPage<TRow>(rows, options, total)
+        }
+
+        const { query, order } = this.buildCursorQuery(options)
+        const { sql, params } = this.compiler.compile(query)
+        const rows = await queryMany(sql, params)
+        // 执行后重置查询状态，但保留表名
+        this.clear()
+        return this.toCursorPage(rows as TRow[], options, order)
+    }
+
+    /**
+     * 构建键集分页查询节点
+     * 按排序列生成 "c1 > v1 OR (c1 = v1 AND c2 > v2)" 形式的条件，多取一行用于判断是否有下一页
+     * @private
+     */
+    private buildCursorQuery(options: CursorPaginateOptions<T>): { query: SelectQueryNode, order: CursorColumn[] } {
+        if (!Number.isInteger(options.first) || options.first <= 0) {
+            throw new Error('first must be a positive integer')
+        }
+
+        const order = this.resolveCursorOrder(options.orderBy)
+        this.assertCursorSelected(order)
+        const where = [...this._where]
+        if (options.cursor) {
+            const values = decodeCursor(options.cursor, order.length)
+            const branches = order.map(({ column: col, direction }, i) => this.conjunction([
+                ...order.slice(0, i).map((prev, j): ExpressionNode => ({
+                    kind: 'comparison', left: prev.column, operator: '=', right: value(values[j])
+                })),
+                { kind: 'comparison', left: col, operator: direction === 'ASC' ? '>' : '<', right: value(values[i]) }
+            ]) as ExpressionNode)
+            where.push(branches.length === 1 ? branches[0] : { kind: 'or', conditions: branches })
+        }
+
+        const query = this.toQuery() as SelectQueryNode
+        return {
+            query: {
+                ...query,
+                where,
+                orderBy: order.map(({ column: col, direction }) => ({ expression: col, direction })),
+                limit: options.first + 1,
+                offset: undefined
+            },
+            order
+        }
+    }
+
+    /**
+     * 将多取一行的查询结果转换为键集分页结果
+     * @private
+     */
+    private toCursorPage<R>(rows: R[], options: CursorPaginateOptions<T>, order: CursorColumn[]): CursorPage<R> {
+        const hasMore = rows.length > options.first
+        const items = hasMore ? rows.slice(0, options.first) : rows
+        return {
+            items,
+            nextCursor: hasMore ? encodeCursor(items[items.length - 1] as Record<string, any>, order) : null,
+            hasMore
+        }
+    }
+
+    /**
+     * 确定键集分页的排序列
+     * @private
+     */
+    private resolveCursorOrder(orderBy?: CursorOrder<T>[]): CursorColumn[] {
+        const items: OrderByNode[] = orderBy && orderBy.length > 0
+            ? orderBy.map(item => typeof item === 'string'
+                ? { expression: column(item), direction: 'ASC' }
+                : { expression: column(item[0]), direction: item[1] })
+            : this._orderBy
+        if (items.length === 0) {
+            throw new Error('paginate() requires orderBy columns')
+        }
+
+        return items.map(item => {
+            if (item.expression.kind !== 'column') {
+                throw new Error('Keyset pagination requires plain column ordering')
+            }
+            return { column: item.expression, key: item.expression.name, direction: item.direction }
+        })
+    }
+
+    /**
+     * 检查排序列都在查询列中，游标需要从结果行读取这些列的值
+     * @private
+     */
+    private assertCursorSelected(order: CursorColumn[]): void {
+        if (this._select.length === 0) return
+
+        const sameTable = (table: string | undefined, col: ColumnNode) => !table || !col.table || table === col.table
+        for (const item of order) {
+            const selected = this._select.some(node =>
+                (node.kind === 'star' && sameTable(node.table, item.column))
+                || (node.kind === 'column' && node.name === item.key && sameTable(node.table, item.column))
+                || (node.kind === 'alias' && node.alias === item.key)
+            )
+            if (!selected) {
+                throw new Error(`Cursor column "${item.key}" must be included in select()`)
+            }
+        }
+    }
+
+    /**
+     * 构建页码分页查询节点，通过窗口函数在同一查询中返回总行数
+     * @private
+     */
+    private buildPageQuery(options: PagePaginateOptions): SelectQueryNode {
+        if (!Number.isInteger(options.page) || options.page < 1 || !Number.isInteger(options.pageSize) || options.pageSize <= 0) {
+            throw new Error('page and pageSize must be positive integers')
+        }
+
+        const query = this.toQuery() as SelectQueryNode
+        return {
+            ...query,
+            columns: [
+                ...(query.columns.length > 0 ? query.columns : [{ kind: 'star' } as StarNode]),
+                { kind: 'alias', expression: raw('COUNT(*) OVER()'), alias: PAGE_TOTAL_COLUMN }
+            ],
+            limit: options.pageSize,
+            offset: (options.page - 1) * options.pageSize
+        }
+    }
+
+    /**
+     * 将页码分页查询结果转换为分页结果，移除总行数列
+     * 请求的页超出范围时结果中没有总行数，需要由调用方单独查询并传入 total
+     * @private
+     */
+    private toOffsetPage<R>(rows: Record<string, any>[], options: PagePaginateOptions, total?: number): OffsetPage<R> {
+        const count = total ?? (rows.length > 0 ? Number(rows[0][PAGE_TOTAL_COLUMN]) : 0)
+        const items = rows.map(row => {
+            const { [PAGE_TOTAL_COLUMN]: _total, ...item } = row
+            return item as R
+        })
+        return { items, total: count, pages: Math.ceil(count / options.pageSize) }
+    }
+
+    /**
+     * 构建当前查询条件下的COUNT(*)查询节点
+     * 保留from/join/where，忽略查询列、排序和分页；
+     * 有分组时统计分组数，与页码分页查询中的 COUNT(*) OVER() 一致
+     */
+    protected buildCountQuery(): SelectQueryNode {
+        const count: ExpressionNode = {
+            kind: 'alias',
+            expression: { kind: 'aggregate', fn: 'COUNT', argument: { kind: 'star' }, distinct: false },
+            alias: 'count'
+        }
+
+        if (this._groupBy.length > 0 || this._having.length > 0) {
+            const { with: ctes, ...query } = this.toQuery() as SelectQueryNode
+            return {
+                type: 'SELECT',
+                with: ctes,
+                table: 'grouped',
+                source: { ...query, orderBy: [], limit: undefined, offset: undefined },
+                columns: [count],
+                joins: [],
+                where: [],
+                groupBy: [],
+                having: [],
+                orderBy: []
+            }
+        }
+
+        return {
+            type: 'SELECT',
+            with: [...this._with],
+            table: this._from,
+            source: this._source,
+            columns: [count],
+            joins: [...this._joins],
+            where: [...this._where],
+            groupBy: [],
+            having: [],
+            orderBy: []
+        }
+    }
+
+    /**
+     * 构建INSERT查询节点
+     * @private
+     */
+    private buildInsertQuery(): InsertQueryNode {
+        if (!this._insertData) {
+            throw new Error('No insert data provided')
+        }
+
+        const dataArray = this._insertData
+        if (dataArray.length === 0) {
+            throw new Error('No data to insert')
+        }
+
+        const columns = Object.keys(dataArray[0])
+        const query: InsertQueryNode = {
+            type: 'INSERT',
+            table: this._from,
+            columns,
+            rows: dataArray.map(data => columns.map(col => value(data[col]))),
+            returning: [...this._returning]
+        }
+
+        if (this._upsertConflict) {
+            query.onConflict = this.buildOnConflict(this._upsertConflict)
+        }
+
+        return query
+    }
+
+    /**
+     * 构建冲突处理节点
+     * 按列名更新时引用各自插入行的值，多行插入时每个冲突行使用自己的值
+     * @private
+     */
+    private buildOnConflict(options: UpsertOptions<T>): OnConflictNode {
+        const columns = (options.columns ?? []).map(String)
+        const { update } = options
+        if (update && columns.length === 0 && !options.constraint) {
+            throw new Error('onConflict update requires columns or constraint')
+        }
+
+        const toConditions = (condition: WhereCondition<T> | SqlFragment) =>
+            condition instanceof SqlFragment ? [condition.node] : this.buildConditions(condition)
+        const assignments: AssignmentNode[] | undefined = Array.isArray(update)
+            ? update.map(col => ({ column: String(col), value: { kind: 'excluded', name: String(col) } }))
+            : update && Object.entries(update).map(([col, val]) => ({ column: col, value: toExpression(val) }))
+
+        return {
+            columns,
+            constraint: options.constraint,
+            where: options.where && toConditions(options.where),
+            update: assignments,
+            updateWhere: options.updateWhere && toConditions(options.updateWhere)
+        }
+    }
+
+    /**
+     * 获取SQL语句（不包含参数）
+     */
+    getSql(): string {
+        return this.getSqlWithParams().sql
+    }
+
+    /**
+     * 获取SQL语句和参数
+     * @returns { sql: string; params: any[] }
+     */
+    getSqlWithParams(): CompiledQuery {
+        return this.compiler.compile(this.toQuery())
+    }
+
+    /**
+     * 清空查询状态
+     */
+    clear(): this {
+        this._with = []
+        this._select = []
+        // 不清空表名（包括派生表），保持 this._from 不变
+        this._joins = []
+        this._where = []
+        this._groupBy = []
+        this._having = []
+        this._orderBy = []
+        this._limit = 0
+        this._offset = 0
+        this._type = 'SELECT'
+        this._insertData = undefined
+        this._updateData = undefined
+        this._upsertConflict = undefined
+        this._returning = []
+        return this
+    }
+
+    /**
+     * 重置查询状态（保护方法）
+     */
+    protected reset(): void {
+        this.clear()
+    }
+}
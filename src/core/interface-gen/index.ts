@@ -0,0 +1,610 @@
+/**
+ * 接口生成核心
+ * 将各适配器内省得到的表结构生成为TypeScript接口，并写入类型定义文件
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { Relation } from '../builder'
+
+/**
+ * 用于生成接口的列描述（方言无关）
+ */
+export interface InterfaceColumn {
+    /** 列名 */
+    name: string
+    /** TypeScript类型 */
+    type: string
+    /** 是否可为空 */
+    nullable: boolean
+    /** 默认值表达式 */
+    defaultValue: string | null
+    /** 是否为主键 */
+    primaryKey: boolean
+    /** 是否有默认值（含自增、标识列），插入时可省略 */
+    hasDefault: boolean
+    /** 列注释 */
+    comment: string | null
+}
+
+/**
+ * 接口命名规则
+ */
+export interface NamingOptions {
+    /** 表名转换方式，默认为 pascal（user_orders -> UserOrders） */
+    case?: 'pascal' | 'camel' | 'preserve'
+    /** 接口名前缀 */
+    prefix?: string
+    /** 接口名后缀 */
+    suffix?: string
+}
+
+/**
+ * 接口生成选项
+ */
+export interface InterfaceGenOptions {
+    /** 接口命名规则 */
+    naming?: NamingOptions
+    /**
+     * 类型覆盖，键为数据库类型名（如 'jsonb'）或 '表名.列名'（如 'users.settings'），
+     * 值为TypeScript类型，列级覆盖优先于类型级覆盖
+     */
+    typeOverrides?: Record<string, string>
+    /** 是否同时生成插入类型（NewUsers）和更新类型（UsersPatch），默认为true */
+    variants?: boolean
+}
+
+/**
+ * 一张表生成的接口名
+ */
+export interface InterfaceNames {
+    /** 查询返回的行类型，如 Users */
+    row: string
+    /** 插入数据类型，如 NewUsers */
+    insert: string
+    /** 更新数据类型，如 UsersPatch */
+    update: string
+}
+
+/**
+ * 已生成内容的表
+ */
+export interface GeneratedTable {
+    tableName: string
+    tableComment: string | null
+    content: string
+    /** 引用的共享类型名（如枚举类型），多文件模式下从共享类型文件导入 */
+    typeRefs?: string[]
+}
+
+/**
+ * 外键约束（方言无关）
+ */
+export interface ForeignKeyDefinition {
+    /** 引用方的表 */
+    table: string
+    /** 引用方的列 */
+    columns: string[]
+    /** 被引用的表 */
+    foreignTable: string
+    /** 被引用的列 */
+    foreignColumns: string[]
+}
+
+/**
+ * 带名称的表关系
+ */
+export interface TableRelation extends Relation {
+    name: string
+}
+
+/**
+ * 多个表共享的类型定义（如枚举生成的联合类型）
+ */
+export interface GeneratedType {
+    name: string
+    content: string
+}
+
+/**
+ * 多文件模式下共享类型所在的文件名（不含扩展名）
+ */
+export const SHARED_TYPES_FILE = 'enums'
+
+/**
+ * 内省输出选项
+ */
+export interface IntrospectOptions extends InterfaceGenOptions {
+    /** 是否生成单个文件，默认为false（每个表一个文件） */
+    singleFile?: boolean
+    /** 单个文件的文件名，当singleFile为true时使用 */
+    fileName?: string
+    /** 是否包含表注释，默认为true */
+    includeComments?: boolean
+    /** 是否包含导入语句，默认为true */
+    includeImports?: boolean
+    /** 自定义导入语句 */
+    customImports?: string[]
+    /** 只包含匹配的表（支持 * 和 ? 通配符） */
+    include?: string[]
+    /** 排除匹配的表（支持 * 和 ? 通配符） */
+    exclude?: string[]
+    /** 是否根据外键生成表关系映射（如 UsersRelations），默认为true */
+    relations?: boolean
+}
+
+/**
+ * 内省结果
+ */
+export interface IntrospectResult {
+    success: boolean
+    message: string
+    files: string[]
+    tables: string[]
+    /** 失败时的原始错误（PostgreSQL 为类型化的错误） */
+    error?: unknown
+}
+
+/**
+ * 将表名转换为接口名
+ * @param tableName 表名
+ * @param naming 命名规则
+ * @example
+ * tableNameToInterfaceName('user_orders') // 返回 'UserOrders'
+ * tableNameToInterfaceName('user_orders', { case: 'camel', prefix: 'I' }) // 返回 'IuserOrders'
+ */
+export function tableNameToInterfaceName(tableName: string, naming: NamingOptions = {}): string {
+    const { case: nameCase = 'pascal', prefix = '', suffix = '' } = naming
+
+    let name = tableName
+    if (nameCase !== 'preserve') {
+        name = tableName
+            .split('_')
+            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+            .join('')
+        if (nameCase === 'camel') {
+            name = name.charAt(0).toLowerCase() + name.slice(1)
+        }
+    }
+
+    return `${prefix}${name}${suffix}`
+}
+
+/**
+ * 获取表的行、插入、更新接口名
+ * @param tableName 表名
+ * @param naming 命名规则
+ * @example
+ * tableNameToInterfaceNames('users') // 返回 { row: 'Users', insert: 'NewUsers', update: 'UsersPatch' }
+ */
+export function tableNameToInterfaceNames(tableName: string, naming: NamingOptions = {}): InterfaceNames {
+    const row = tableNameToInterfaceName(tableName, naming)
+    return {
+        row,
+        insert: `New${row}`,
+        update: `${row}Patch`
+    }
+}
+
+/**
+ * 将取值列表转换为字符串字面量联合类型
+ * @param values 取值列表
+ * @example
+ * toStringLiteralUnion(['pending', 'paid']) // 返回 "'pending' | 'paid'"
+ */
+export function toStringLiteralUnion(values: string[]): string {
+    if (values.length === 0) {
+        return 'never'
+    }
+    return values.map(v => `'${v.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(' | ')
+}
+
+/**
+ * 生成类型别名定义
+ * @param typeName 类型名
+ * @param type TypeScript类型
+ * @param comment 注释
+ * @example
+ * generateTypeAlias('OrderStatus', "'pending' | 'paid'") // 返回 "export type OrderStatus = 'pending' | 'paid'\n"
+ */
+export function generateTypeAlias(typeName: string, type: string, comment?: string | null): string {
+    let content = ''
+    if (comment) {
+        content += `/** ${comment} */\n`
+    }
+    content += `export type ${typeName} = ${type}\n`
+    return content
+}
+
+/**
+ * 查找列的类型覆盖
+ * @param overrides 类型覆盖配置
+ * @param tableName 表名
+ * @param columnName 列名
+ * @param dbTypes 列的数据库类型名（可提供多个别名，如 data_type 和 udt_name）
+ * @returns 覆盖的TypeScript类型，未配置时返回 undefined
+ */
+export function findTypeOverride(
+    overrides: Record<string, string> | undefined,
+    tableName: string,
+    columnName: string,
+    dbTypes: (string | null | undefined)[]
+): string | undefined {
+    if (!overrides) return undefined
+
+    const columnKey = `${tableName}.${columnName}`
+    if (overrides[columnKey] !== undefined) {
+        return overrides[columnKey]
+    }
+
+    for (const dbType of dbTypes) {
+        if (dbType && overrides[dbType.toLowerCase()] !== undefined) {
+            return overrides[dbType.toLowerCase()]
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * 生成TypeScript接口定义
+ * 默认每张表生成三个接口：行类型（如 Users）、插入类型（如 NewUsers，有默认值或可为空的列可省略）
+ * 和更新类型（如 UsersPatch，所有列可省略且不含主键）
+ * @param tableName 表名
+ * @param tableComment 表注释
+ * @param columns 列描述
+ * @param includeComments 是否包含注释
+ * @param options 命名规则和是否生成插入、更新类型
+ */
+export function generateInterface(
+    tableName: string,
+    tableComment: string | null,
+    columns: InterfaceColumn[],
+    includeComments: boolean = true,
+    options: InterfaceGenOptions = {}
+): string {
+    const names = tableNameToInterfaceNames(tableName, options.naming)
+
+    let interfaceContent = ''
+
+    // 添加表注释
+    if (includeComments && tableComment) {
+        interfaceContent += `/**\n * ${tableComment}\n */\n`
+    }
+
+    interfaceContent += `export interface ${names.row} {\n`
+
+    columns.forEach(column => {
+        // 构建类型字符串
+        let typeStr = column.type
+        if (column.nullable) {
+            typeStr = `${column.type} | null`
+        }
+
+        // 添加列注释
+        let comment = ''
+        if (includeComments) {
+            if (column.comment) {
+                comment += column.comment
+            }
+            if (column.defaultValue !== null) {
+                if (comment) comment += '\n'
+                comment += `默认值: ${column.defaultValue}`
+            }
+            if (column.nullable) {
+                if (comment) comment += '\n'
+                comment += '可为空'
+            }
+            if (column.primaryKey) {
+                if (comment) comment += '\n'
+                comment += '主键'
+            }
+        }
+
+        if (comment) {
+            interfaceContent += `    /** ${comment} */\n`
+        }
+
+        // 查询结果中可为空的列总是存在，值为 null
+        interfaceContent += `    ${column.name}: ${typeStr};\n`
+    })
+
+    interfaceContent += '}\n'
+
+    if (options.variants === false) {
+        return interfaceContent
+    }
+
+    // 插入类型：有默认值或可为空的列可省略
+    interfaceContent += '\n'
+    if (includeComments) {
+        interfaceContent += `/**\n * ${tableName} 插入数据\n */\n`
+    }
+    interfaceContent += `export interface ${names.insert} {\n`
+    columns.forEach(column => {
+        const optional = column.hasDefault || column.nullable
+        interfaceContent += `    ${column.name}${optional ? '?' : ''}: ${column.nullable ? `${column.type} | null` : column.type};\n`
+    })
+    interfaceContent += '}\n'
+
+    // 更新类型：所有列可省略，主键不可更新
+    interfaceContent += '\n'
+    if (includeComments) {
+        interfaceContent += `/**\n * ${tableName} 更新数据\n */\n`
+    }
+    interfaceContent += `export interface ${names.update} {\n`
+    columns.filter(column => !column.primaryKey).forEach(column => {
+        interfaceContent += `    ${column.name}?: ${column.nullable ? `${column.type} | null` : column.type};\n`
+    })
+    interfaceContent += '}\n'
+
+    return interfaceContent
+}
+
+/**
+ * 根据外键构建表的关系
+ * 本表引用其他表时生成 belongsTo 关系，名称取自去掉 _id 后缀的列名（否则为被引用表名）；
+ * 其他表引用本表时生成 hasMany 关系，名称为引用方表名。名称重复时追加 _by_列名
+ * @param tableName 表名
+ * @param foreignKeys 外键约束（应包含引用本表的外键）
+ * @example
+ * buildTableRelations('orders', [{ table: 'orders', columns: ['user_id'], foreignTable: 'users', foreignColumns: ['id'] }])
+ * // [{ name: 'user', kind: 'belongsTo', table: 'users', columns: ['user_id'], references: ['id'] }]
+ */
+export function buildTableRelations(tableName: string, foreignKeys: ForeignKeyDefinition[]): TableRelation[] {
+    const relations: TableRelation[] = []
+    const keyColumns: string[][] = []
+
+    for (const fk of foreignKeys) {
+        if (fk.table === tableName) {
+            const [col] = fk.columns
+            relations.push({
+                name: fk.columns.length === 1 && col.endsWith('_id') && col.length > 3 ? col.slice(0, -3) : fk.foreignTable,
+                kind: 'belongsTo',
+                table: fk.foreignTable,
+                columns: fk.columns,
+                references: fk.foreignColumns
+            })
+            keyColumns.push(fk.columns)
+        }
+        if (fk.foreignTable === tableName) {
+            relations.push({
+                name: fk.table,
+                kind: 'hasMany',
+                table: fk.table,
+                columns: fk.foreignColumns,
+                references: fk.columns
+            })
+            keyColumns.push(fk.columns)
+        }
+    }
+
+    // 名称重复或与本表同名（自引用）时，以外键列区分
+    const counts = new Map<string, number>()
+    relations.forEach(relation => counts.set(relation.name, (counts.get(relation.name) || 0) + 1))
+    relations.forEach((relation, i) => {
+        if (counts.get(relation.name)! > 1 || relation.name === tableName) {
+            relation.name = `${relation.name}_by_${keyColumns[i].join('_')}`
+        }
+    })
+
+    return relations
+}
+
+/**
+ * 生成表关系映射常量
+ * @param tableName 表名
+ * @param relations 表关系
+ * @param includeComments 是否包含注释
+ * @param naming 命名规则
+ */
+export function generateRelations(
+    tableName: string,
+    relations: TableRelation[],
+    includeComments: boolean = true,
+    naming: NamingOptions = {}
+): string {
+    const quoteKey = (key: string) => /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`
+    const quoteList = (values: readonly string[]) => `[${values.map(v => `'${v}'`).join(', ')}]`
+
+    let content = ''
+    if (includeComments) {
+        content += `/**\n * ${tableName} 表关系\n */\n`
+    }
+    content += `export const ${tableNameToInterfaceName(tableName, naming)}Relations = {\n`
+    relations.forEach(relation => {
+        content += `    ${quoteKey(relation.name)}: { kind: '${relation.kind}', table: '${relation.table}', `
+            + `columns: ${quoteList(relation.columns)}, references: ${quoteList(relation.references)} },\n`
+    })
+    content += '} as const\n'
+    return content
+}
+
+/**
+ * 生成 DatabaseTables 导出索引
+ * @private
+ */
+function generateTableIndex(tables: GeneratedTable[], naming: NamingOptions): string {
+    let content = `/**
+ * 所有表接口的导出索引
+ */\n`
+    content += `export const DatabaseTables = {\n`
+
+    // 使用 Map 来跟踪已使用的键，确保唯一性
+    const usedKeys = new Map<string, number>()
+    tables.forEach(table => {
+        const interfaceName = tableNameToInterfaceName(table.tableName, naming)
+        let key = table.tableName
+
+        // 如果键已存在，添加后缀
+        if (usedKeys.has(key)) {
+            const count = usedKeys.get(key)! + 1
+            usedKeys.set(key, count)
+            key = `${table.tableName}_${count}`
+        } else {
+            usedKeys.set(key, 1)
+        }
+
+        content += `  ${key}: '${interfaceName}',\n`
+    })
+    content += `} as const\n\n`
+
+    content += `export type DatabaseTableNames = typeof DatabaseTables[keyof typeof DatabaseTables]\n`
+    return content
+}
+
+/**
+ * 将生成的接口写入类型定义文件
+ * @param outputDir 输出目录路径
+ * @param tables 已生成内容的表
+ * @param source 文件头中的来源描述，如 '模式: public'
+ * @param options 配置选项
+ * @param sharedTypes 共享类型定义（如枚举），单文件模式写在接口之前，多文件模式写入 enums.ts
+ */
+export function writeInterfaceFiles(
+    outputDir: string,
+    tables: GeneratedTable[],
+    source: string,
+    options: IntrospectOptions = {},
+    sharedTypes: GeneratedType[] = []
+): IntrospectResult {
+    // 确保输出目录存在
+    if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true })
+    }
+
+    const {
+        singleFile = false,
+        fileName = 'database-types.ts',
+        includeImports = true,
+        customImports = [],
+        naming = {}
+    } = options
+
+    const imports = [
+        '// 基础类型导入',
+        'export type { }',
+        '',
+        ...customImports
+    ]
+
+    const generatedFiles: string[] = []
+    const tableNames: string[] = []
+
+    if (singleFile) {
+        // 生成单个文件
+        const filePath = path.join(outputDir, fileName)
+        let content = ''
+
+        // 添加文件头注释
+        content += `/**
+ * 数据库类型定义
+ * 自动生成于 ${new Date().toISOString()}
+ * ${source}
+ * 表数量: ${tables.length}
+ */\n\n`
+
+        // 添加导入语句
+        if (includeImports) {
+            content += imports.join('\n') + '\n\n'
+        }
+
+        // 添加共享类型
+        for (const sharedType of sharedTypes) {
+            content += sharedType.content + '\n'
+        }
+
+        // 生成所有表的接口
+        for (const table of tables) {
+            content += table.content + '\n\n'
+            tableNames.push(table.tableName)
+        }
+
+        // 添加导出索引
+        content += generateTableIndex(tables, naming)
+
+        // 写入文件
+        fs.writeFileSync(filePath, content, 'utf-8')
+        generatedFiles.push(filePath)
+
+        return {
+            success: true,
+            message: `成功生成 ${tables.length} 个表的类型定义到文件: ${filePath}`,
+            files: generatedFiles,
+            tables: tableNames
+        }
+    }
+
+    // 为每个表生成单独的文件
+    for (const table of tables) {
+        const interfaceName = tableNameToInterfaceName(table.tableName, naming)
+        const filePath = path.join(outputDir, `${interfaceName}.ts`)
+
+        let content = ''
+
+        // 添加文件头注释
+        content += `/**
+ * ${table.tableComment || table.tableName} 表类型定义
+ * 自动生成于 ${new Date().toISOString()}
+ * ${source}
+ */\n\n`
+
+        // 添加导入语句
+        if (includeImports) {
+            content += imports.join('\n') + '\n'
+        }
+
+        if (table.typeRefs && table.typeRefs.length > 0) {
+            content += `import type { ${table.typeRefs.join(', ')} } from './${SHARED_TYPES_FILE}'\n\n`
+        }
+
+        content += table.content
+
+        // 写入文件
+        fs.writeFileSync(filePath, content, 'utf-8')
+        generatedFiles.push(filePath)
+        tableNames.push(table.tableName)
+    }
+
+    // 生成共享类型文件
+    if (sharedTypes.length > 0) {
+        const sharedFilePath = path.join(outputDir, `${SHARED_TYPES_FILE}.ts`)
+        let sharedContent = `/**
+ * 共享类型定义
+ * 自动生成于 ${new Date().toISOString()}
+ * ${source}
+ */\n\n`
+        sharedContent += sharedTypes.map(sharedType => sharedType.content).join('\n')
+
+        fs.writeFileSync(sharedFilePath, sharedContent, 'utf-8')
+        generatedFiles.push(sharedFilePath)
+    }
+
+    // 生成索引文件
+    const indexFilePath = path.join(outputDir, 'index.ts')
+    let indexContent = `/**
+ * 数据库类型定义索引
+ * 自动生成于 ${new Date().toISOString()}
+ * ${source}
+ */\n\n`
+
+    // 导出所有接口
+    if (sharedTypes.length > 0) {
+        indexContent += `export * from './${SHARED_TYPES_FILE}'\n`
+    }
+    tables.forEach(table => {
+        indexContent += `export * from './${tableNameToInterfaceName(table.tableName, naming)}'\n`
+    })
+
+    indexContent += '\n' + generateTableIndex(tables, naming)
+
+    fs.writeFileSync(indexFilePath, indexContent, 'utf-8')
+    generatedFiles.push(indexFilePath)
+
+    return {
+        success: true,
+        message: `成功生成 ${tables.length} 个表的类型定义文件到目录: ${outputDir}`,
+        files: generatedFiles,
+        tables: tableNames
+    }
+}
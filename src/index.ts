@@ -0,0 +1,13 @@
+/**
+ * typosql 入口
+ * 导出各数据库的适配器和查询构建器、配置和迁移，命令行入口见 cli/bin
+ */
+
+export * from './adapters/pgsql'
+export { MySQLAdapter, MySQLQueryBuilder } from './adapters/mysql'
+export type { MySQLConfig, MySQLQueryResult } from './adapters/mysql'
+export { SQLiteAdapter, SQLiteQueryBuilder } from './adapters/sqlite'
+export type { SQLiteConfig, SQLiteQueryResult } from './adapters/sqlite'
+export * from './config'
+export * from './migrations'
+export { run } from './cli'
@@ -0,0 +1,383 @@
+/**
+ * 数据库迁移
+ * 按版本顺序执行 up/down SQL 文件，并在历史表中记录已执行的迁移
+ */
+
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { Client } from 'pg'
+import { PostgreSQLClient } from '../adapters/pgsql/client'
+import { escapeIdentifier } from '../adapters/pgsql/utils'
+
+/**
+ * 默认的迁移文件目录
+ */
+export const DEFAULT_MIGRATIONS_DIR = './migrations'
+
+/**
+ * 默认的迁移历史表名
+ */
+export const DEFAULT_MIGRATIONS_TABLE = 'typosql_migrations'
+
+/**
+ * 迁移配置
+ */
+export interface MigrationOptions {
+    /** 迁移文件目录，默认为 ./migrations */
+    directory?: string
+    /** 迁移历史表名，可带模式名，默认为 typosql_migrations */
+    tableName?: string
+}
+
+/**
+ * 迁移文件
+ * 每个迁移由 <版本>_<名称>.up.sql 和 <版本>_<名称>.down.sql 两个文件组成
+ */
+export interface MigrationFile {
+    version: string
+    name: string
+    upPath: string
+    /** 没有 down 文件时为 null，该迁移不能回滚 */
+    downPath: string | null
+    /** up 文件内容的校验和 */
+    checksum: string
+}
+
+/**
+ * 已执行的迁移（历史表中的记录）
+ */
+export interface AppliedMigration {
+    version: string
+    name: string
+    checksum: string
+    applied_at: Date
+    execution_ms: number
+}
+
+/**
+ * 迁移状态
+ * - applied: 已执行
+ * - pending: 未执行
+ * - changed: 已执行，但文件在执行后被修改
+ * - missing: 已执行，但文件已不存在
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing'
+
+/**
+ * 迁移状态信息
+ */
+export interface MigrationStatus {
+    version: string
+    name: string
+    state: MigrationState
+    appliedAt: Date | null
+}
+
+/**
+ * 迁移执行结果
+ */
+export interface MigrationRunResult {
+    version: string
+    name: string
+    durationMs: number
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_(.+)\.up\.sql$/
+
+/**
+ * 生成迁移版本号（UTC时间，格式 YYYYMMDDHHmmss）
+ * @param date 时间，默认为当前时间
+ * @example
+ * formatMigrationVersion(new Date('2024-01-15T10:30:00Z')) // 返回 '20240115103000'
+ */
+export function formatMigrationVersion(date: Date = new Date()): string {
+    return date.toISOString().replace(/\D/g, '').slice(0, 14)
+}
+
+/**
+ * 计算迁移内容的校验和，忽略换行符差异
+ * @param content 迁移SQL
+ */
+export function computeChecksum(content: string): string {
+    return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex')
+}
+
+/**
+ * 创建新的迁移文件
+ * @param name 迁移名称
+ * @param directory 迁移文件目录
+ * @example
+ * createMigration('create_users') // 生成 migrations/20240115103000_create_users.up.sql 和 .down.sql
+ */
+export function createMigration(name: string, directory: string = DEFAULT_MIGRATIONS_DIR): MigrationFile {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+    if (!slug) {
+        throw new Error(`Invalid migration name: ${name}`)
+    }
+
+    if (!fs.existsSync(directory)) {
+        fs.mkdirSync(directory, { recursive: true })
+    }
+
+    const version = formatMigrationVersion()
+    const upPath = path.join(directory, `${version}_${slug}.up.sql`)
+    const downPath = path.join(directory, `${version}_${slug}.down.sql`)
+    if (fs.existsSync(upPath)) {
+        throw new Error(`Migration already exists: ${upPath}`)
+    }
+
+    const upContent = `-- 迁移: ${slug}\n-- 在此编写升级SQL\n`
+    fs.writeFileSync(upPath, upContent, 'utf-8')
+    fs.writeFileSync(downPath, `-- 迁移: ${slug}\n-- 在此编写回滚SQL\n`, 'utf-8')
+
+    return { version, name: slug, upPath, downPath, checksum: computeChecksum(upContent) }
+}
+
+/**
+ * 读取目录中的迁移文件，按版本排序
+ * @param directory 迁移文件目录
+ */
+export function loadMigrations(directory: string = DEFAULT_MIGRATIONS_DIR): MigrationFile[] {
+    if (!fs.existsSync(directory)) {
+        return []
+    }
+
+    const migrations: MigrationFile[] = []
+    for (const fileName of fs.readdirSync(directory)) {
+        const match = fileName.match(MIGRATION_FILE_PATTERN)
+        if (!match) continue
+
+        const [, version, name] = match
+        const upPath = path.join(directory, fileName)
+        const downPath = path.join(directory, `${version}_${name}.down.sql`)
+
+        if (migrations.some(migration => migration.version === version)) {
+            throw new Error(`Duplicate migration version: ${version}`)
+        }
+
+        migrations.push({
+            version,
+            name,
+            upPath,
+            downPath: fs.existsSync(downPath) ? downPath : null,
+            checksum: computeChecksum(fs.readFileSync(upPath, 'utf-8'))
+        })
+    }
+
+    return migrations.sort((a, b) => a.version.localeCompare(b.version))
+}
+
+/**
+ * 迁移执行器
+ * 每个迁移在独立事务中执行，执行期间持有 advisory lock，避免多个部署同时迁移
+ * @example
+ * const migrator = new Migrator(new PostgreSQLClient(config), { directory: './migrations' })
+ * await migrator.up()
+ * await migrator.down({ steps: 1 })
+ */
+export class Migrator {
+    private client: PostgreSQLClient
+    private directory: string
+    private tableName: string
+
+    constructor(client: PostgreSQLClient, options: MigrationOptions = {}) {
+        this.client = client
+        this.directory = options.directory || DEFAULT_MIGRATIONS_DIR
+        this.tableName = options.tableName || DEFAULT_MIGRATIONS_TABLE
+    }
+
+    /**
+     * 获取所有迁移的状态
+     * 只读取历史表，历史表不存在时所有迁移均为未执行
+     */
+    async status(): Promise<MigrationStatus[]> {
+        return this.withLock(async client => {
+            const files = loadMigrations(this.directory)
+            const applied = await this.tableExists(client) ? await this.getApplied(client) : []
+
+            const result: MigrationStatus[] = files.map(file => {
+                const record = applied.find(row => row.version === file.version)
+                return {
+                    version: file.version,
+                    name: file.name,
+                    state: !record ? 'pending' : record.checksum === file.checksum ? 'applied' : 'changed',
+                    appliedAt: record ? record.applied_at : null
+                }
+            })
+
+            for (const record of applied) {
+                if (!files.some(file => file.version === record.version)) {
+                    result.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.applied_at })
+                }
+            }
+
+            return result.sort((a, b) => a.version.localeCompare(b.version))
+        })
+    }
+
+    /**
+     * 执行未执行的迁移
+     * @param options.to 只执行版本号不大于该值的迁移
+     * @returns 本次执行的迁移
+     */
+    async up(options: { to?: string } = {}): Promise<MigrationRunResult[]> {
+        return this.withLock(async client => {
+            await this.ensureTable(client)
+            const files = loadMigrations(this.directory)
+            const applied = await this.getApplied(client)
+
+            // 已执行的迁移文件被修改时拒绝继续
+            for (const record of applied) {
+                const file = files.find(f => f.version === record.version)
+                if (file && file.checksum !== record.checksum) {
+                    throw new Error(`Migration ${file.version}_${file.name} has been modified after it was applied`)
+                }
+            }
+
+            const pending = files.filter(file =>
+                !applied.some(record => record.version === file.version)
+                && (!options.to || file.version <= options.to)
+            )
+
+            const results: MigrationRunResult[] = []
+            for (const file of pending) {
+                const sql = fs.readFileSync(file.upPath, 'utf-8')
+                const durationMs = await this.run(file, sql, async (tx, elapsed) => {
+                    await tx.query(
+                        `INSERT INTO ${this.quotedTable()} (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)`,
+                        [file.version, file.name, file.checksum, elapsed]
+                    )
+                })
+                results.push({ version: file.version, name: file.name, durationMs })
+            }
+            return results
+        })
+    }
+
+    /**
+     * 回滚已执行的迁移
+     * @param options.steps 回滚的数量，默认为1
+     * @param options.to 回滚所有版本号大于该值的迁移，指定时忽略 steps
+     * @returns 本次回滚的迁移
+     */
+    async down(options: { steps?: number, to?: string } = {}): Promise<MigrationRunResult[]> {
+        return this.withLock(async client => {
+            await this.ensureTable(client)
+            const files = loadMigrations(this.directory)
+            const applied = (await this.getApplied(client)).reverse()
+
+            const targets = options.to !== undefined
+                ? applied.filter(record => record.version > options.to!)
+                : applied.slice(0, options.steps ?? 1)
+
+            const results: MigrationRunResult[] = []
+            for (const record of targets) {
+                const file = files.find(f => f.version === record.version)
+                if (!file) {
+                    throw new Error(`Migration file for ${record.version}_${record.name} not found`)
+                }
+                if (!file.downPath) {
+                    throw new Error(`Migration ${file.version}_${file.name} has no down file`)
+                }
+
+                const sql = fs.readFileSync(file.downPath, 'utf-8')
+                const durationMs = await this.run(file, sql, async tx => {
+                    await tx.query(`DELETE FROM ${this.quotedTable()} WHERE version = $1`, [file.version])
+                })
+                results.push({ version: file.version, name: file.name, durationMs })
+            }
+            return results
+        })
+    }
+
+    /**
+     * 在事务中执行迁移SQL和历史表更新
+     * 失败时抛出的错误通过 cause 保留原始错误（如带 SQLSTATE 的 PostgreSQLError）
+     * @private
+     */
+    private async run(
+        file: MigrationFile,
+        sql: string,
+        record: (client: Client, elapsed: number) => Promise<void>
+    ): Promise<number> {
+        const start = Date.now()
+        let elapsed = 0
+        try {
+            await this.client.transaction(async tx => {
+                await tx.query(sql)
+                elapsed = Date.now() - start
+                await record(tx, elapsed)
+            })
+        } catch (error) {
+            const message = `Migration ${file.version}_${file.name} failed: ${error instanceof Error ? error.message : String(error)}`
+            throw Object.assign(new Error(message), { cause: error })
+        }
+        return elapsed
+    }
+
+    /**
+     * 持有 advisory lock 执行操作
+     * 锁以历史表名为键，使用同一历史表的迁移互斥
+     * @private
+     */
+    private async withLock<T>(callback: (client: Client) => Promise<T>): Promise<T> {
+        const client = await this.client.getClient()
+        const unlock = () => client.query('SELECT pg_advisory_unlock(hashtext($1))', [this.tableName])
+        await client.query('SELECT pg_advisory_lock(hashtext($1))', [this.tableName])
+        let result: T
+        try {
+            result = await callback(client)
+        } catch (error) {
+            // 连接断开时解锁也会失败，锁随会话结束释放，忽略解锁错误以抛出原始错误
+            await unlock().catch(() => undefined)
+            throw error
+        }
+        await unlock()
+        return result
+    }
+
+    /**
+     * 检查迁移历史表是否存在
+     * @private
+     */
+    private async tableExists(client: Client): Promise<boolean> {
+        const result = await client.query('SELECT to_regclass($1) IS NOT NULL AS exists', [this.quotedTable()])
+        return result.rows[0].exists
+    }
+
+    /**
+     * 创建迁移历史表
+     * @private
+     */
+    private async ensureTable(client: Client): Promise<void> {
+        await client.query(`
+            CREATE TABLE IF NOT EXISTS ${this.quotedTable()} (
+                version VARCHAR(255) PRIMARY KEY,
+                name VARCHAR(255) NOT NULL,
+                checksum VARCHAR(64) NOT NULL,
+                applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+                execution_ms INTEGER NOT NULL DEFAULT 0
+            )
+        `)
+    }
+
+    /**
+     * 获取已执行的迁移，按版本排序
+     * @private
+     */
+    private async getApplied(client: Client): Promise<AppliedMigration[]> {
+        const result = await client.query(
+            `SELECT version, name, checksum, applied_at, execution_ms FROM ${this.quotedTable()} ORDER BY version`
+        )
+        return result.rows
+    }
+
+    /**
+     * 转义历史表名，支持 schema.table 形式
+     * @private
+     */
+    private quotedTable(): string {
+        return this.tableName.split('.').map(escapeIdentifier).join('.')
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * 通用工具函数
+ */
+
+/**
+ * 将通配符模式转换为正则表达式
+ * 支持 * （任意字符）和 ? （单个字符）
+ * @param pattern 通配符模式
+ * @example
+ * globToRegExp('user_*').test('user_orders') // 返回 true
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split('')
+        .map(char => {
+            if (char === '*') return '.*'
+            if (char === '?') return '.'
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        })
+        .join('')
+    return new RegExp(`^${source}$`)
+}
+
+/**
+ * 检查名称是否匹配任一通配符模式
+ * @param name 名称
+ * @param patterns 通配符模式列表
+ */
+export function matchesAnyGlob(name: string, patterns: string[]): boolean {
+    return patterns.some(pattern => globToRegExp(pattern).test(name))
+}
+
+/**
+ * 按包含/排除模式过滤表名
+ * 未指定 include 时默认包含所有表，exclude 优先于 include
+ * @param tableName 表名
+ * @param filters 过滤模式
+ * @example
+ * matchTableFilters('user_orders', { include: ['user_*'], exclude: ['*_tmp'] }) // 返回 true
+ */
+export function matchTableFilters(
+    tableName: string,
+    filters: { include?: string[]; exclude?: string[] }
+): boolean {
+    const { include = [], exclude = [] } = filters
+    if (include.length > 0 && !matchesAnyGlob(tableName, include)) {
+        return false
+    }
+    return !matchesAnyGlob(tableName, exclude)
+}
@@ -0,0 +1,498 @@
+import { PostgreSQLSqlGenerator, PostgreSQLCompiler } from '../../src/adapters/pgsql/sql-generator'
+import { MySQLSqlGenerator } from '../../src/adapters/mysql/sql-generator'
+import { PostgreSQLExecutor, PostgreSQLQueryBuilder } from '../../src/adapters/pgsql'
+import { avg, count, countDistinct, max, QueryCompiler, sql, sum } from '../../src/core/builder'
+import { buildTableRelations, ForeignKeyDefinition } from '../../src/core/interface-gen'
+
+interface KvStore {
+    id: number
+    name: string
+    value: string | null
+}
+
+interface Article {
+    id: number
+    title: string
+    tags: string[]
+    meta: Record<string, any>
+}
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+/**
+ * 用于验证AST方言无关性的测试编译器
+ */
+class QuestionMarkCompiler extends QueryCompiler {
+    quoteIdentifier(identifier: string): string {
+        return `[${identifier}]`
+    }
+
+    placeholder(): string {
+        return '?'
+    }
+}
+
+function main() {
+    console.log('🚀 开始查询构建器单元测试')
+    console.log('='.repeat(60))
+
+    // ==================== SELECT 测试 ====================
+    logTest('SELECT 编译测试')
+
+    let query = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .select('id', 'name')
+        .where({ name: { $in: ['a', 'b'] }, value: null })
+        .orderBy('id', 'DESC')
+        .limit(10)
+    let compiled = query.getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT "id", "name" FROM "kv_store" WHERE "name" IN ($1, $2) AND "value" IS NULL ORDER BY "id" DESC LIMIT 10',
+        `SELECT 编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.length === 2, 'IS NULL 不应产生参数')
+    logSuccess('SELECT 编译成功')
+
+    // 重复编译不应重复累加参数
+    assert(query.getSqlWithParams().params.length === 2, '重复编译参数累加')
+    logSuccess('重复编译结果一致')
+
+    // ==================== UPDATE 测试 ====================
+    logTest('UPDATE 编译测试')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .where({ id: 1 })
+        .update({ value: 'updated' })
+        .getSqlWithParams()
+    assert(compiled.sql === 'UPDATE "kv_store" SET "value" = $1 WHERE "id" = $2', `UPDATE 编译结果错误: ${compiled.sql}`)
+    assert(compiled.params[0] === 'updated' && compiled.params[1] === 1, 'UPDATE 参数顺序错误')
+    logSuccess('UPDATE 占位符按编译顺序编号')
+
+    // ==================== 查询列类型测试 ====================
+    logTest('查询列类型测试')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .select('id', { label: 'name', total: sql<number>`SUM(${sql.id('id')})` })
+        .groupBy('id', 'name')
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT "id", "name" AS "label", SUM("id") AS "total" FROM "kv_store" GROUP BY "id", "name"',
+        `别名编译结果错误: ${compiled.sql}`
+    )
+    logSuccess('别名映射编译为 AS')
+
+    const selecting = PostgreSQLQueryBuilder.from<KvStore>('kv_store', {} as PostgreSQLExecutor)
+        .select('id', { label: 'name', total: sql<number>`SUM(${sql.id('id')})` })
+        .where({ value: null })
+    type SelectedKvRow = Awaited<ReturnType<typeof selecting.execMany>>[number]
+    const selected: SelectedKvRow = { id: 1, label: 'a', total: 2 }
+    // @ts-expect-error 未选择的列不在结果类型中
+    selected.value
+    // @ts-expect-error 别名的类型来自所引用的列
+    const wrongLabel: SelectedKvRow = { id: 1, label: 1, total: 2 }
+    const allColumns = PostgreSQLQueryBuilder.from<KvStore>('kv_store', {} as PostgreSQLExecutor).select()
+    const whole: NonNullable<Awaited<ReturnType<typeof allColumns.execOne>>> = { id: 1, name: 'a', value: null }
+    assert(selected.label === 'a' && whole.name === 'a' && wrongLabel, '结果类型检查')
+    logSuccess('execMany() 的结果类型为所选的列和别名')
+
+    // ==================== 聚合测试 ====================
+    logTest('聚合测试')
+
+    const report = PostgreSQLQueryBuilder.from<Article>('articles', {} as PostgreSQLExecutor)
+        .select('title', { articles: count(), tagged: countDistinct('tags'), total: sum('id'), average: avg('id'), latest: max('id') })
+        .where({ id: { $gt: 0 } })
+        .groupBy('title')
+        .having({ articles: { $gte: 2 }, $or: [{ total: { $gt: 10 } }, { title: 'x' }] })
+        .orderBy(count(), 'DESC')
+    compiled = report.getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT "title", COUNT(*) AS "articles", COUNT(DISTINCT "tags") AS "tagged", SUM("id") AS "total", AVG("id") AS "average", MAX("id") AS "latest"'
+            + ' FROM "articles" WHERE "id" > $1 GROUP BY "title"'
+            + ' HAVING COUNT(*) >= $2 AND (SUM("id") > $3 OR "title" = $4) ORDER BY COUNT(*) DESC',
+        `聚合编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === '0,2,10,x', `HAVING 参数错误: ${compiled.params}`)
+    logSuccess('聚合函数、GROUP BY 和 HAVING 中的别名展开')
+
+    type ReportRow = Awaited<ReturnType<typeof report.execMany>>[number]
+    const reportRow: ReportRow = { title: 'a', articles: 3, tagged: 2, total: null, average: 1.5, latest: 7 }
+    // @ts-expect-error COUNT 的结果不为 null
+    const wrongCount: ReportRow = { ...reportRow, articles: null }
+    // @ts-expect-error MAX 的结果类型与列相同
+    const wrongMax: ReportRow = { ...reportRow, latest: 'a' }
+    assert(reportRow.articles === 3 && wrongCount && wrongMax, '聚合结果类型检查')
+    logSuccess('聚合别名的结果类型')
+
+    // ==================== RETURNING 测试 ====================
+    logTest('RETURNING 测试')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .insert({ name: 'a', value: 'b' }, { onConflict: { columns: ['name'], update: ['value'] } })
+        .returning('id', 'name')
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'INSERT INTO "kv_store" ("name", "value") VALUES ($1, $2) ON CONFLICT ("name") DO UPDATE SET "value" = EXCLUDED."value" RETURNING "id", "name"',
+        `INSERT RETURNING 编译结果错误: ${compiled.sql}`
+    )
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store').where({ id: 1 }).update({ value: 'c' }).returning('*').getSqlWithParams()
+    assert(compiled.sql === 'UPDATE "kv_store" SET "value" = $1 WHERE "id" = $2 RETURNING *', `UPDATE RETURNING 编译结果错误: ${compiled.sql}`)
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store').where({ id: 1 }).delete().returning('id').getSqlWithParams()
+    assert(compiled.sql === 'DELETE FROM "kv_store" WHERE "id" = $1 RETURNING "id"', `DELETE RETURNING 编译结果错误: ${compiled.sql}`)
+    logSuccess('INSERT / UPDATE / DELETE 支持 RETURNING')
+
+    const executor = {} as PostgreSQLExecutor
+    const inserting = PostgreSQLQueryBuilder.from<KvStore>('kv_store', executor).insert({ name: 'a' }).returning('id')
+    type InsertedRow = NonNullable<Awaited<ReturnType<typeof inserting.execOne>>>
+    const inserted: InsertedRow = { id: 1 }
+    // @ts-expect-error 结果类型只包含 returning() 选择的列
+    inserted.name
+    logSuccess('execOne() / execMany() 的结果类型为所选的列')
+
+    let mysqlReturning: unknown
+    try {
+        new MySQLSqlGenerator<KvStore>('kv_store').delete().returning('id').getSqlWithParams()
+    } catch (e) {
+        mysqlReturning = e
+    }
+    assert(mysqlReturning instanceof Error && mysqlReturning.message.includes('RETURNING'), 'MySQL 应拒绝 RETURNING')
+    logSuccess('MySQL 不支持 RETURNING 时报错')
+
+    // ==================== 方言无关测试 ====================
+    logTest('方言无关 AST 测试')
+
+    const ast = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .select('id')
+        .where({ id: { $gte: 5 } })
+        .toQuery()
+    const pg = new PostgreSQLCompiler().compile(ast)
+    const other = new QuestionMarkCompiler().compile(ast)
+    assert(pg.sql === 'SELECT "id" FROM "kv_store" WHERE "id" >= $1', `PostgreSQL 编译结果错误: ${pg.sql}`)
+    assert(other.sql === 'SELECT [id] FROM [kv_store] WHERE [id] >= ?', `自定义方言编译结果错误: ${other.sql}`)
+    logSuccess('同一 AST 可由不同编译器编译')
+
+    // ==================== 逻辑组合测试 ====================
+    logTest('逻辑组合测试')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .where({
+            id: { $gt: 1 },
+            $or: [
+                { name: 'a' },
+                { $and: [{ name: 'b' }, { value: null }] },
+                { $not: { value: { $in: ['x', 'y'] } } }
+            ]
+        })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "kv_store" WHERE "id" > $1 AND ("name" = $2 OR "name" = $3 AND "value" IS NULL OR NOT ("value" IN ($4, $5)))',
+        `$or / $and / $not 编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === '1,a,b,x,y', `逻辑组合参数顺序错误: ${compiled.params}`)
+    logSuccess('$or / $and / $not 嵌套组合')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .where({ name: 'a' })
+        .orWhere({ name: 'b' })
+        .where({ id: 3 })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "kv_store" WHERE ("name" = $1 OR "name" = $2) AND "id" = $3',
+        `orWhere 编译结果错误: ${compiled.sql}`
+    )
+    logSuccess('orWhere 与已有条件组成 OR 分组')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store').where({ $or: [] }).getSqlWithParams()
+    assert(compiled.sql === 'SELECT * FROM "kv_store" WHERE FALSE', `空 $or 编译结果错误: ${compiled.sql}`)
+    logSuccess('空 $or 不匹配任何行')
+
+    // ==================== 扩展运算符测试 ====================
+    logTest('扩展运算符测试')
+
+    compiled = new PostgreSQLSqlGenerator<Article>('articles')
+        .where({
+            id: { $between: [1, 10], $in: [] },
+            title: { $ilike: '%sql%', $notLike: 'draft%', $iregex: '^v[0-9]+' },
+            tags: { $contains: ['db'], $overlap: ['pg', 'mysql'] },
+            meta: { $hasKey: 'author', $jsonContains: { lang: 'zh' }, $path: '$.score ? (@ > 5)' }
+        })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "articles" WHERE "id" BETWEEN $1 AND $2 AND FALSE'
+            + ' AND "title" ILIKE $3 AND "title" NOT LIKE $4 AND "title" ~* $5'
+            + ' AND "tags" @> $6 AND "tags" && $7'
+            + ' AND "meta" ? $8 AND "meta" @> $9::jsonb AND "meta" @? $10::jsonpath',
+        `扩展运算符编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params[8] === '{"lang":"zh"}', 'JSON 包含的参数应序列化为 JSON 字符串')
+    logSuccess('BETWEEN、ILIKE、正则、数组和 JSONB 运算符参数化')
+
+    compiled = new PostgreSQLSqlGenerator<Article>('articles')
+        .where({ title: { $textSearch: { query: 'query builder', config: 'english' } }, id: { $nin: [] } })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "articles" WHERE to_tsvector($1::regconfig, "title") @@ plainto_tsquery($2::regconfig, $3)',
+        `全文检索编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === 'english,english,query builder', `全文检索参数错误: ${compiled.params}`)
+    logSuccess('全文检索使用 to_tsvector @@ plainto_tsquery，空 $nin 恒真')
+
+    // @ts-expect-error 数组运算符只能用于数组列
+    new PostgreSQLSqlGenerator<Article>('articles').where({ title: { $contains: ['a'] } })
+    // @ts-expect-error 字符串运算符不能用于数字列
+    new PostgreSQLSqlGenerator<Article>('articles').where({ id: { $ilike: '1%' } })
+    logSuccess('运算符按列类型提供')
+
+    let unsupported: unknown
+    try {
+        new MySQLSqlGenerator<Article>('articles').where({ title: { $ilike: 'a%' } }).getSqlWithParams()
+    } catch (e) {
+        unsupported = e
+    }
+    assert(unsupported instanceof Error && unsupported.message.includes('ilike'), '不支持的方言应抛出错误')
+    logSuccess('不支持的方言编译时报错')
+
+    // ==================== SQL 片段测试 ====================
+    logTest('SQL 片段测试')
+
+    const recent = sql`${sql.id('orders.created_at')} > ${'2024-01-01'}`
+    compiled = new PostgreSQLSqlGenerator<KvStore>('users')
+        .select('id', sql`COUNT(${sql.id('orders.id')}) AS ${sql.id('order_count')}`)
+        .join('orders', sql`${sql.id('orders.user_id')} = ${sql.id('users.id')} AND ${recent}`)
+        .where({ name: 'john' })
+        .where(sql`${sql.id('value')} = ${"x' OR '1'='1"} OR ${sql.id('id')} IN (${sql`SELECT user_id FROM admins WHERE level > ${3}`})`)
+        .groupBy('id')
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT "id", COUNT("orders"."id") AS "order_count" FROM "users"'
+            + ' INNER JOIN "orders" ON "orders"."user_id" = "users"."id" AND "orders"."created_at" > $1'
+            + ' WHERE "name" = $2 AND ("value" = $3 OR "id" IN (SELECT user_id FROM admins WHERE level > $4)) GROUP BY "id"',
+        `SQL 片段编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join('|') === "2024-01-01|john|x' OR '1'='1|3", `SQL 片段参数错误: ${compiled.params}`)
+    logSuccess('插值转换为占位符，标识符按方言引用，嵌套片段按整个查询重新编号')
+
+    compiled = new MySQLSqlGenerator<KvStore>('kv_store').where(sql`${sql.id('name')} = ${'a'}`).getSqlWithParams()
+    assert(compiled.sql === 'SELECT * FROM `kv_store` WHERE (`name` = ?)', `MySQL SQL 片段编译结果错误: ${compiled.sql}`)
+    logSuccess('同一片段可由不同方言编译')
+
+    // ==================== 子查询测试 ====================
+    logTest('子查询测试')
+
+    const admins = new PostgreSQLSqlGenerator<KvStore>('admins').select('id').where({ value: 'root' })
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .where({ name: 'a' })
+        .where({ id: { $in: admins }, value: { $nin: new PostgreSQLSqlGenerator<KvStore>('banned').select('value').limit(5) } })
+        .whereNotExists(new PostgreSQLSqlGenerator<KvStore>('locks').where(sql`${sql.id('locks.id')} = ${sql.id('kv_store.id')} AND ${sql.id('locks.name')} = ${'write'}`))
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "kv_store" WHERE "name" = $1'
+            + ' AND "id" IN (SELECT "id" FROM "admins" WHERE "value" = $2)'
+            + ' AND "value" NOT IN (SELECT "value" FROM "banned" LIMIT 5)'
+            + ' AND NOT EXISTS (SELECT * FROM "locks" WHERE ("locks"."id" = "kv_store"."id" AND "locks"."name" = $3))',
+        `子查询条件编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === 'a,root,write', `子查询参数错误: ${compiled.params}`)
+    logSuccess('$in / $nin / NOT EXISTS 子查询与外层统一编号')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('totals')
+        .with('recent', new PostgreSQLSqlGenerator<KvStore>('kv_store').where({ value: { $neq: 'old' } }))
+        .from(
+            new PostgreSQLSqlGenerator<KvStore>('recent').select('name', { total: sql<number>`COUNT(*)` }).where({ id: { $gt: 10 } }).groupBy('name'),
+            'totals'
+        )
+        .where(sql`${sql.id('totals.total')} > ${2}`)
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'WITH "recent" AS (SELECT * FROM "kv_store" WHERE "value" != $1)'
+            + ' SELECT * FROM (SELECT "name", COUNT(*) AS "total" FROM "recent" WHERE "id" > $2 GROUP BY "name") AS "totals"'
+            + ' WHERE ("totals"."total" > $3)',
+        `CTE 和派生表编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === 'old,10,2', `CTE 和派生表参数错误: ${compiled.params}`)
+    logSuccess('with(名称, 子查询) 公用表表达式和 from() 派生表编译成功')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('tree')
+        .withRecursive(
+            'tree',
+            new PostgreSQLSqlGenerator<KvStore>('categories').select('id', 'name').where({ id: 1 }),
+            new PostgreSQLSqlGenerator<KvStore>('categories')
+                .select(sql.id('categories.id'), sql.id('categories.name'))
+                .join('tree', sql`${sql.id('categories.value')} = ${sql.id('tree.name')}`)
+                .where({ name: { $neq: 'hidden' } })
+        )
+        .where({ name: { $like: 'a%' } })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'WITH RECURSIVE "tree" AS (SELECT "id", "name" FROM "categories" WHERE "id" = $1'
+            + ' UNION ALL SELECT "categories"."id", "categories"."name" FROM "categories" INNER JOIN "tree" ON "categories"."value" = "tree"."name" WHERE "name" != $2)'
+            + ' SELECT * FROM "tree" WHERE "name" LIKE $3',
+        `递归 CTE 编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === '1,hidden,a%', `递归 CTE 参数错误: ${compiled.params}`)
+    logSuccess('withRecursive() 编译成功')
+
+    compiled = new MySQLSqlGenerator<KvStore>('kv_store')
+        .select('name', { latest: sql`${new MySQLSqlGenerator<KvStore>('logs').select('value').where({ id: 3 }).limit(1)}` })
+        .where({ value: 'x' })
+        .whereExists(new MySQLSqlGenerator<KvStore>('logs').where({ name: 'y' }))
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT `name`, (SELECT `value` FROM `logs` WHERE `id` = ? LIMIT 1) AS `latest` FROM `kv_store` WHERE `value` = ? AND EXISTS (SELECT * FROM `logs` WHERE `name` = ?)',
+        `MySQL 子查询编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === '3,x,y', 'MySQL 子查询参数顺序错误')
+    logSuccess('sql 模板插入子查询，MySQL 参数按出现顺序排列')
+
+    let subqueryError: unknown
+    try {
+        new PostgreSQLSqlGenerator<KvStore>('kv_store').whereExists(new PostgreSQLSqlGenerator<KvStore>('logs').delete())
+    } catch (e) {
+        subqueryError = e
+    }
+    assert(subqueryError instanceof Error && subqueryError.message === 'Subquery must be a SELECT query', '非 SELECT 子查询应抛出错误')
+    logSuccess('子查询只能是 SELECT 查询')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .where({ id: { $in: sql`SELECT ${sql.id('kv_id')} FROM ${sql.id('tags')} WHERE ${sql.id('tag')} = ${'hot'}` } })
+        .getSqlWithParams()
+    assert(compiled.sql === 'SELECT * FROM "kv_store" WHERE "id" IN (SELECT "kv_id" FROM "tags" WHERE "tag" = $1)', `$in SQL片段编译结果错误: ${compiled.sql}`)
+    assert(compiled.params.join(',') === 'hot', `$in SQL片段参数错误: ${compiled.params}`)
+
+    for (const op of ['$in', '$nin']) {
+        let scalarError: unknown
+        try {
+            new PostgreSQLSqlGenerator<KvStore>('kv_store').where({ id: { [op]: 5 } } as any)
+        } catch (e) {
+            scalarError = e
+        }
+        assert(scalarError instanceof Error && scalarError.message === `${op} expects an array, a subquery or an SQL fragment`, `${op} 传入标量应抛出明确的错误: ${scalarError}`)
+    }
+    logSuccess('$in / $nin 接受SQL片段，传入标量时抛出明确的错误')
+
+    // ==================== UPSERT 测试 ====================
+    logTest('UPSERT 测试')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .insertMany([{ name: 'a', value: '1' }, { name: 'b', value: '2' }], { onConflict: { columns: ['name'], update: ['value'] } })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'INSERT INTO "kv_store" ("name", "value") VALUES ($1, $2), ($3, $4) ON CONFLICT ("name") DO UPDATE SET "value" = EXCLUDED."value"',
+        `多行 UPSERT 编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.length === 4, '按列名更新不应产生额外参数')
+    logSuccess('按列名更新时每个冲突行使用自己的插入值')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .insert({ name: 'a', value: '1' }, { onConflict: { constraint: 'kv_store_name_key' } })
+        .getSqlWithParams()
+    assert(compiled.sql.endsWith('ON CONFLICT ON CONSTRAINT "kv_store_name_key" DO NOTHING'), `约束冲突目标编译结果错误: ${compiled.sql}`)
+    logSuccess('ON CONFLICT ON CONSTRAINT 编译成功')
+
+    compiled = new PostgreSQLSqlGenerator<KvStore>('kv_store')
+        .insert({ name: 'a', value: '1' }, {
+            onConflict: {
+                columns: ['name'],
+                where: { value: { $isNull: false } },
+                update: { value: sql`${sql.id('kv_store.value')} || ${sql.excluded('value')}`, id: 7 },
+                updateWhere: { id: { $gt: 3 } }
+            }
+        })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'INSERT INTO "kv_store" ("name", "value") VALUES ($1, $2)'
+            + ' ON CONFLICT ("name") WHERE "value" IS NOT NULL'
+            + ' DO UPDATE SET "value" = "kv_store"."value" || EXCLUDED."value", "id" = $3 WHERE "id" > $4',
+        `条件 UPSERT 编译结果错误: ${compiled.sql}`
+    )
+    assert(compiled.params.join(',') === 'a,1,7,3', `条件 UPSERT 参数错误: ${compiled.params}`)
+    logSuccess('部分索引谓词、自定义更新表达式和 DO UPDATE ... WHERE 编译成功')
+
+    let upsertError: unknown
+    try {
+        new MySQLSqlGenerator<KvStore>('kv_store').insert({ name: 'a' }, { onConflict: { constraint: 'uniq_name' } }).getSqlWithParams()
+    } catch (e) {
+        upsertError = e
+    }
+    assert(upsertError instanceof Error && upsertError.message === 'ON CONFLICT ON CONSTRAINT is not supported by MySQL', 'MySQL 指定约束应抛出错误')
+    logSuccess('MySQL 不支持的冲突选项抛出错误')
+
+    // ==================== MySQL 测试 ====================
+    logTest('MySQL 编译测试')
+
+    compiled = new MySQLSqlGenerator<KvStore>('kv_store')
+        .insert({ name: 'a', value: 'b' }, { onConflict: { columns: ['name'], update: ['value'] } })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'INSERT INTO `kv_store` (`name`, `value`) VALUES (?, ?) ON DUPLICATE KEY UPDATE `value` = VALUES(`value`)',
+        `MySQL UPSERT 编译结果错误: ${compiled.sql}`
+    )
+    logSuccess('MySQL ON DUPLICATE KEY UPDATE 编译成功')
+
+    compiled = new MySQLSqlGenerator<KvStore>('kv_store')
+        .insert({ name: 'a', value: 'b' }, { onConflict: { columns: ['name'] } })
+        .getSqlWithParams()
+    assert(compiled.sql.endsWith('ON DUPLICATE KEY UPDATE `name` = `name`'), `MySQL 忽略冲突编译结果错误: ${compiled.sql}`)
+    logSuccess('MySQL 忽略冲突编译成功')
+
+    compiled = new MySQLSqlGenerator<KvStore>('kv_store').orderBy('id').offset(5).getSqlWithParams()
+    assert(compiled.sql === 'SELECT * FROM `kv_store` ORDER BY `id` ASC LIMIT 18446744073709551615 OFFSET 5', `MySQL 只有偏移量时编译结果错误: ${compiled.sql}`)
+    compiled = new MySQLSqlGenerator<KvStore>('kv_store').limit(10).offset(5).getSqlWithParams()
+    assert(compiled.sql === 'SELECT * FROM `kv_store` LIMIT 10 OFFSET 5', `MySQL 分页编译结果错误: ${compiled.sql}`)
+    logSuccess('MySQL 只设置 offset() 时使用最大行数作为 LIMIT')
+
+    // ==================== 表关系测试 ====================
+    logTest('表关系测试')
+
+    const foreignKeys: ForeignKeyDefinition[] = [
+        { table: 'orders', columns: ['user_id'], foreignTable: 'users', foreignColumns: ['id'] },
+        { table: 'categories', columns: ['parent_id'], foreignTable: 'categories', foreignColumns: ['id'] }
+    ]
+    const userRelations = buildTableRelations('users', foreignKeys)
+    assert(userRelations.length === 1 && userRelations[0].name === 'orders' && userRelations[0].kind === 'hasMany', '反向关系生成错误')
+    const categoryRelations = buildTableRelations('categories', foreignKeys)
+    assert(
+        categoryRelations.map(relation => relation.name).join(',') === 'parent,categories_by_parent_id',
+        `自引用关系命名错误: ${categoryRelations.map(relation => relation.name)}`
+    )
+    logSuccess('根据外键生成 belongsTo / hasMany 关系')
+
+    const OrdersRelations = {
+        user: { kind: 'belongsTo', table: 'users', columns: ['user_id'], references: ['id'] }
+    } as const
+    const UsersRelations = {
+        orders: { kind: 'hasMany', table: 'orders', columns: ['id'], references: ['user_id'] }
+    } as const
+
+    compiled = new PostgreSQLSqlGenerator<KvStore, Partial<KvStore>, Partial<KvStore>, typeof OrdersRelations>('orders', OrdersRelations)
+        .joinRelation('user')
+        .where({ id: 1 })
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "orders" INNER JOIN "users" AS "user" ON "user"."id" = "orders"."user_id" WHERE "id" = $1',
+        `joinRelation 编译结果错误: ${compiled.sql}`
+    )
+    compiled = new PostgreSQLSqlGenerator<KvStore, Partial<KvStore>, Partial<KvStore>, typeof UsersRelations>('users', UsersRelations)
+        .with('orders')
+        .getSqlWithParams()
+    assert(
+        compiled.sql === 'SELECT * FROM "users" LEFT JOIN "orders" ON "orders"."user_id" = "users"."id"',
+        `with 编译结果错误: ${compiled.sql}`
+    )
+    logSuccess('按关系生成 JOIN 条件')
+
+    console.log('\n🎉 所有测试通过！')
+    console.log('='.repeat(60))
+}
+
+main()
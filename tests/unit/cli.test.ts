@@ -0,0 +1,135 @@
+import { run } from '../../src/cli'
+import { writeSnapshotFile } from '../../src/adapters/pgsql/snapshot'
+import { ColumnInfo, SchemaSnapshot, TableSnapshot } from '../../src/adapters/pgsql/introspect'
+import fs from 'fs'
+import path from 'path'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+function column(name: string, dataType: string, overrides: Partial<ColumnInfo> = {}): ColumnInfo {
+    return {
+        column_name: name,
+        data_type: dataType,
+        is_nullable: 'NO',
+        column_default: null,
+        is_identity: 'NO',
+        udt_schema: 'pg_catalog',
+        udt_name: dataType,
+        domain_name: null,
+        character_maximum_length: null,
+        numeric_precision: null,
+        numeric_scale: null,
+        column_comment: null,
+        ...overrides
+    }
+}
+
+function table(tableName: string, columns: ColumnInfo[]): TableSnapshot {
+    return {
+        tableName,
+        tableType: 'BASE TABLE',
+        tableComment: null,
+        columns,
+        primaryKey: { name: `${tableName}_pkey`, columns: ['id'] },
+        indexes: [],
+        foreignKeys: []
+    }
+}
+
+function snapshot(...tables: TableSnapshot[]): SchemaSnapshot {
+    return { version: 1, dialect: 'pgsql', schema: 'public', enums: [], tables }
+}
+
+async function main() {
+    console.log('🚀 开始命令行单元测试')
+    console.log('='.repeat(60))
+
+    const directory = './test-generated/cli'
+    fs.rmSync(directory, { recursive: true, force: true })
+
+    try {
+        // ==================== 参数解析测试 ====================
+        logTest('参数解析测试')
+
+        assert(await run(['--help']) === 0, '--help 应返回 0')
+        assert(await run([]) === 2, '缺少命令应返回 2')
+        assert(await run(['publish']) === 2, '未知命令应返回 2')
+        assert(await run(['introspect', '--verbose']) === 2, '未知选项应返回 2')
+        logSuccess('帮助、缺少命令、未知命令和未知选项')
+
+        assert(await run(['introspect', '--port', 'abc']) === 2, '非数字端口应返回 2')
+        assert(await run(['introspect', '--port', '70000']) === 2, '超出范围的端口应返回 2')
+        assert(await run(['introspect', '--port', '54.3']) === 2, '小数端口应返回 2')
+        logSuccess('无效端口在连接数据库前报告参数错误')
+
+        assert(await run(['migrate:create']) === 2, '缺少迁移名称应返回 2')
+        assert(await run(['migrate:down', '--steps', '0']) === 2, '无效回滚数量应返回 2')
+        assert(await run(['diff', '--from', 'a.json']) === 2, 'diff 缺少 --to 应返回 2')
+        logSuccess('子命令参数校验')
+
+        assert(await run(['introspect', '--config', path.join(directory, 'missing.json')]) === 1, '配置文件不存在应返回 1')
+        logSuccess('执行失败返回 1')
+
+        // ==================== 命令执行测试 ====================
+        logTest('命令执行测试')
+
+        const migrationsDir = path.join(directory, 'migrations')
+        assert(await run(['migrate:create', 'add_users', '--dir', migrationsDir]) === 0, '创建迁移失败')
+        const files = fs.readdirSync(migrationsDir)
+        assert(files.length === 2 && files.every(file => file.includes('add_users')), `迁移文件错误: ${files.join(',')}`)
+        logSuccess('migrate:create 在 --dir 目录中创建迁移文件')
+
+        const users = table('users', [column('id', 'integer'), column('email', 'text')])
+        const audit = table('audit_logs', [column('id', 'integer')])
+        const source = path.join(directory, 'source.json')
+        const target = path.join(directory, 'target.json')
+        writeSnapshotFile(source, snapshot(users, audit))
+        writeSnapshotFile(target, snapshot({ ...users, columns: [...users.columns, column('name', 'text')] }, audit))
+
+        const outputDir = path.join(directory, 'types')
+        const code = await run([
+            'generate', '--snapshot', source, '--out', outputDir,
+            '--single-file', '--file-name', 'db.ts', '--include', 'users,audit_*', '--exclude', 'audit_*'
+        ])
+        assert(code === 0, 'generate --snapshot 失败')
+        const generated = fs.readFileSync(path.join(outputDir, 'db.ts'), 'utf-8')
+        assert(generated.includes('export interface Users') && !generated.includes('AuditLogs'), '包含/排除过滤未生效')
+        logSuccess('generate 使用输出目录、单文件和以逗号分隔的过滤选项')
+
+        const sqlFile = path.join(directory, 'changes.sql')
+        assert(await run(['diff', '--from', source, '--to', target, '--out', sqlFile]) === 0, 'diff 失败')
+        const changes = fs.readFileSync(sqlFile, 'utf-8')
+        assert(changes.includes('ALTER TABLE "public"."users" ADD COLUMN "name" text NOT NULL'), `差异SQL错误: ${changes}`)
+        logSuccess('diff 比较两个快照文件并写入 --out')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true })
+    }
+}
+
+main().catch(e => {
+    console.error('\n💥 测试执行失败:', e)
+    process.exit(1)
+})
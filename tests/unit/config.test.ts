@@ -0,0 +1,170 @@
+import {
+    findConfigFile,
+    interpolateEnv,
+    loadConfig,
+    loadIntrospectConfig,
+    resolveConnection,
+    resolveIntrospectTargets,
+    validateConfig
+} from '../../src/config'
+import fs from 'fs'
+import path from 'path'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+function expectError(fn: () => unknown, message: string): string {
+    try {
+        fn()
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error)
+    }
+    throw new Error(message)
+}
+
+async function main() {
+    console.log('🚀 开始配置单元测试')
+    console.log('='.repeat(60))
+
+    const directory = './test-generated/config'
+    fs.rmSync(directory, { recursive: true, force: true })
+    fs.mkdirSync(directory, { recursive: true })
+
+    const writeConfig = (fileName: string, config: any) => {
+        const filePath = path.join(directory, fileName)
+        fs.writeFileSync(filePath, JSON.stringify(config, null, 2))
+        return filePath
+    }
+    const pgConnection = (overrides: Record<string, any> = {}) => ({
+        host: 'localhost',
+        port: 5432,
+        user: 'postgres',
+        password: 'secret',
+        database: 'app',
+        ...overrides
+    })
+
+    try {
+        // ==================== 环境变量替换测试 ====================
+        logTest('环境变量替换测试')
+
+        const env = { DB_HOST: 'db.internal', EMPTY: '' }
+        assert(interpolateEnv<string>('${DB_HOST}:5432', env) === 'db.internal:5432', '环境变量替换失败')
+        assert(interpolateEnv<string>('${DB_PORT:-5433}', env) === '5433', '未设置时应使用默认值')
+        assert(interpolateEnv<string>('${EMPTY:-fallback}', env) === 'fallback', '空值时应使用默认值')
+        assert(interpolateEnv<string>('${EMPTY:-}', env) === '', '默认值可以为空')
+        logSuccess('替换变量和默认值')
+
+        const nested = interpolateEnv({ hosts: ['${DB_HOST}'], pool: { max: 10 }, ssl: true }, env)
+        assert(nested.hosts[0] === 'db.internal' && nested.pool.max === 10 && nested.ssl === true, '嵌套对象替换错误')
+        logSuccess('递归处理对象和数组，非字符串保持原样')
+
+        const missing = expectError(() => interpolateEnv({ password: '${DB_PASSWORD}' }, env), '缺少环境变量应抛出错误')
+        assert(missing === 'Environment variable DB_PASSWORD is not set', `缺少环境变量的错误信息错误: ${missing}`)
+        assert(expectError(() => interpolateEnv('${EMPTY}', env), '空环境变量应抛出错误').includes('EMPTY'), '空环境变量的错误信息错误')
+        logSuccess('缺少环境变量时抛出错误')
+
+        // ==================== 配置加载测试 ====================
+        logTest('配置加载测试')
+
+        process.env.TYPOSQL_TEST_PORT = '5433'
+        process.env.TYPOSQL_TEST_PASSWORD = 'from-env'
+        const jsonPath = writeConfig('typosql.config.json', {
+            defaultConnection: 'main',
+            connections: {
+                main: pgConnection({ port: '${TYPOSQL_TEST_PORT}', password: '${TYPOSQL_TEST_PASSWORD}' }),
+                local: { dialect: 'sqlite', filename: './app.db' }
+            }
+        })
+        const config = loadConfig(jsonPath)
+        const [name, connection] = resolveConnection(config)
+        assert(name === 'main' && (connection as any).port === 5433, `替换后的端口应转换为数字: ${(connection as any).port}`)
+        assert((connection as any).password === 'from-env', '密码应来自环境变量')
+        assert(resolveConnection(config, 'local')[1].dialect === 'sqlite', '按名称获取连接失败')
+        assert(expectError(() => resolveConnection(config, 'other'), '未知连接应抛出错误').includes("Connection 'other' not found"), '未知连接的错误信息错误')
+        logSuccess('加载JSON配置，替换环境变量并按名称获取连接')
+
+        assert(findConfigFile(directory) === path.join(directory, 'typosql.config.json'), '查找配置文件失败')
+        assert(findConfigFile(path.join(directory, 'none')) === null, '没有配置文件时应返回 null')
+        logSuccess('在目录中查找配置文件')
+
+        const jsPath = path.resolve(directory, 'typosql.config.js')
+        fs.writeFileSync(jsPath, `module.exports = { default: { connections: { main: ${JSON.stringify(pgConnection())} } } }`)
+        assert(resolveConnection(loadConfig(jsPath))[0] === 'main', '加载JS配置失败')
+        logSuccess('加载JS配置的默认导出')
+
+        process.env.TYPOSQL_TEST_PORT = 'abc'
+        const invalidPort = expectError(() => loadConfig(jsonPath), '非数字端口应抛出错误')
+        assert(invalidPort === "Invalid connection 'main': Invalid PostgreSQL port number", `非数字端口的错误信息错误: ${invalidPort}`)
+        delete process.env.TYPOSQL_TEST_PORT
+        assert(expectError(() => loadConfig(jsonPath), '缺少环境变量应抛出错误').includes('TYPOSQL_TEST_PORT'), '缺少端口变量的错误信息错误')
+        logSuccess('端口替换为非数字或缺少环境变量时报错')
+
+        // 只读取内省配置时不需要连接参数的环境变量
+        const introspectPath = writeConfig('introspect.json', {
+            connections: {
+                main: pgConnection({ password: '${TYPOSQL_TEST_MISSING}', introspect: { outputDir: '${TYPOSQL_TEST_OUT:-./types}' } })
+            }
+        })
+        assert(loadIntrospectConfig(introspectPath)?.outputDir === './types', '内省配置加载失败')
+        logSuccess('内省配置只替换自身的环境变量')
+
+        // ==================== 配置验证测试 ====================
+        logTest('配置验证测试')
+
+        assert(expectError(() => validateConfig({ connections: {} }), '空连接应抛出错误').includes('at least one connection'), '空连接的错误信息错误')
+        assert(
+            expectError(() => validateConfig({ defaultConnection: 'x', connections: { main: pgConnection() } }), '默认连接不存在应抛出错误').includes("default connection 'x' not found"),
+            '默认连接不存在的错误信息错误'
+        )
+        assert(
+            expectError(() => validateConfig({ connections: { main: pgConnection({ port: 70000 }) } }), '端口超出范围应抛出错误').includes('Invalid PostgreSQL port number'),
+            '端口超出范围的错误信息错误'
+        )
+        assert(
+            expectError(() => validateConfig({ connections: { db: { dialect: 'mysql', host: 'h', port: 3306.5, user: 'u', database: 'd' } } }), '小数端口应抛出错误').includes('Invalid MySQL port number'),
+            'MySQL 端口的错误信息错误'
+        )
+        assert(
+            expectError(() => validateConfig({ connections: { local: { dialect: 'sqlite', filename: 'a.db', introspect: { outputDir: './types', schemas: ['main'] } } } }), 'SQLite 模式应抛出错误').includes('SQLite does not support schemas'),
+            'SQLite 模式的错误信息错误'
+        )
+        logSuccess('验证连接、默认连接、端口和内省配置')
+
+        const targets = resolveIntrospectTargets(pgConnection({ introspect: { outputDir: './types', schemas: ['public', 'audit'] } }) as any)
+        assert(
+            targets.map(t => `${t.schema}:${t.outputDir}`).join(',') === `public:${path.join('./types', 'public')},audit:${path.join('./types', 'audit')}`,
+            `多模式输出目录错误: ${JSON.stringify(targets)}`
+        )
+        logSuccess('多个模式分别输出到子目录')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true })
+    }
+}
+
+main().catch(e => {
+    console.error('\n💥 测试执行失败:', e)
+    process.exit(1)
+})
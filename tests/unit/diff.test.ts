@@ -0,0 +1,176 @@
+import { changesToSql, diffSchemas, formatColumnType } from '../../src/adapters/pgsql/diff'
+import { ColumnInfo, SchemaSnapshot, TableSnapshot } from '../../src/adapters/pgsql/introspect'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+function column(name: string, dataType: string, overrides: Partial<ColumnInfo> = {}): ColumnInfo {
+    return {
+        column_name: name,
+        data_type: dataType,
+        is_nullable: 'YES',
+        column_default: null,
+        is_identity: 'NO',
+        udt_schema: 'pg_catalog',
+        udt_name: dataType,
+        domain_name: null,
+        character_maximum_length: null,
+        numeric_precision: null,
+        numeric_scale: null,
+        column_comment: null,
+        ...overrides
+    }
+}
+
+function usersTable(overrides: Partial<TableSnapshot> = {}): TableSnapshot {
+    return {
+        tableName: 'users',
+        tableType: 'BASE TABLE',
+        tableComment: null,
+        columns: [
+            column('id', 'integer', { is_nullable: 'NO', column_default: "nextval('users_id_seq'::regclass)" }),
+            column('email', 'character varying', { is_nullable: 'NO', character_maximum_length: 255 })
+        ],
+        primaryKey: { name: 'users_pkey', columns: ['id'] },
+        indexes: [],
+        foreignKeys: [],
+        ...overrides
+    }
+}
+
+function snapshot(...tables: TableSnapshot[]): SchemaSnapshot {
+    return { version: 1, dialect: 'pgsql', schema: 'public', enums: [], tables }
+}
+
+function main() {
+    console.log('🚀 开始结构差异单元测试')
+    console.log('='.repeat(60))
+
+    try {
+        // ==================== 列类型测试 ====================
+        logTest('列类型测试')
+
+        assert(formatColumnType(column('name', 'character varying', { character_maximum_length: 50 })) === 'character varying(50)', 'varchar 长度错误')
+        assert(formatColumnType(column('price', 'numeric', { numeric_precision: 10, numeric_scale: 2 })) === 'numeric(10, 2)', 'numeric 精度错误')
+        assert(formatColumnType(column('tags', 'ARRAY', { udt_name: '_text' })) === 'text[]', '数组类型错误')
+        assert(formatColumnType(column('status', 'USER-DEFINED', { udt_schema: 'public', udt_name: 'order_status' })) === '"public"."order_status"', '枚举类型错误')
+        logSuccess('列类型包含长度、精度和数组标记')
+
+        // ==================== 表差异测试 ====================
+        logTest('表差异测试')
+
+        const created = diffSchemas(snapshot(), snapshot(usersTable()))
+        assert(created.length === 1 && created[0].kind === 'createTable', '应只生成建表语句')
+        assert(created[0].sql.includes('"id" serial NOT NULL'), `自增列应转换为 serial: ${created[0].sql}`)
+        assert(created[0].sql.includes('CONSTRAINT "users_pkey" PRIMARY KEY ("id")'), '建表语句缺少主键')
+        logSuccess('新表生成 CREATE TABLE')
+
+        const dropped = diffSchemas(snapshot(usersTable()), snapshot())
+        assert(changesToSql(dropped) === 'DROP TABLE "public"."users";\n', `删除表语句错误: ${changesToSql(dropped)}`)
+        logSuccess('多余的表生成 DROP TABLE')
+
+        assert(diffSchemas(snapshot(usersTable()), snapshot(usersTable())).length === 0, '相同结构不应有差异')
+        logSuccess('相同结构没有差异')
+
+        // ==================== 列差异测试 ====================
+        logTest('列差异测试')
+
+        const target = usersTable({
+            columns: [
+                column('id', 'integer', { is_nullable: 'NO', column_default: "nextval('users_id_seq'::regclass)" }),
+                column('email', 'text', { is_nullable: 'YES' }),
+                column('active', 'boolean', { is_nullable: 'NO', column_default: 'true' })
+            ],
+            indexes: [{ name: 'users_email_key', columns: ['email'], unique: true, primary: false, constraint: true }]
+        })
+        const changes = diffSchemas(snapshot(usersTable()), snapshot(target))
+        assert(
+            changes.map(change => change.kind).join(',') === 'addColumn,alterColumnType,alterColumnNullable,createIndex',
+            `变更顺序错误: ${changes.map(change => change.kind).join(',')}`
+        )
+        assert(changes[0].sql === 'ALTER TABLE "public"."users" ADD COLUMN "active" boolean DEFAULT true NOT NULL', `添加列语句错误: ${changes[0].sql}`)
+        assert(changes[1].sql === 'ALTER TABLE "public"."users" ALTER COLUMN "email" TYPE text USING "email"::text', `修改类型语句错误: ${changes[1].sql}`)
+        assert(changes[2].sql.endsWith('ALTER COLUMN "email" DROP NOT NULL'), `修改可空语句错误: ${changes[2].sql}`)
+        assert(changes[3].sql === 'ALTER TABLE "public"."users" ADD CONSTRAINT "users_email_key" UNIQUE ("email")', `唯一约束语句错误: ${changes[3].sql}`)
+        logSuccess('列的添加、类型和可空变更')
+
+        // ==================== 索引差异测试 ====================
+        logTest('索引差异测试')
+
+        const partial = (predicate: string) => usersTable({
+            indexes: [{
+                name: 'users_email_active_idx',
+                columns: ['(lower((email)::text))'],
+                unique: true,
+                primary: false,
+                constraint: false,
+                method: 'btree',
+                predicate
+            }]
+        })
+        const indexChanges = diffSchemas(snapshot(partial('deleted_at IS NULL')), snapshot(partial('active')))
+        assert(indexChanges.map(change => change.kind).join(',') === 'dropIndex,createIndex', '只修改索引条件时应重建索引')
+        assert(
+            indexChanges[1].sql === 'CREATE UNIQUE INDEX "users_email_active_idx" ON "public"."users" ((lower((email)::text))) WHERE active',
+            `部分索引语句错误: ${indexChanges[1].sql}`
+        )
+        assert(diffSchemas(snapshot(partial('active')), snapshot(partial('active'))).length === 0, '相同的部分索引不应有差异')
+        logSuccess('部分索引和表达式索引保留条件和表达式')
+
+        const gin = usersTable({ indexes: [{ name: 'users_tags_idx', columns: ['tags'], unique: false, primary: false, constraint: false, method: 'gin', predicate: null }] })
+        const ginChanges = diffSchemas(snapshot(usersTable()), snapshot(gin))
+        assert(ginChanges[0].sql === 'CREATE INDEX "users_tags_idx" ON "public"."users" USING gin ("tags")', `索引方法语句错误: ${ginChanges[0].sql}`)
+        const legacy = usersTable({ indexes: [{ name: 'users_tags_idx', columns: ['tags'], unique: false, primary: false, constraint: false }] })
+        assert(diffSchemas(snapshot(legacy), snapshot(gin)).length === 2, '索引方法不同时应重建索引')
+        assert(diffSchemas(snapshot(legacy), snapshot(usersTable({ indexes: [{ ...legacy.indexes[0], method: 'btree', predicate: null }] }))).length === 0, '缺少索引方法的旧快照应按 btree 比较')
+        logSuccess('非 btree 索引生成 USING 子句')
+
+        // ==================== 外键差异测试 ====================
+        logTest('外键差异测试')
+
+        const posts = (onDelete: string): TableSnapshot => ({
+            tableName: 'posts',
+            tableType: 'BASE TABLE',
+            tableComment: null,
+            columns: [column('id', 'integer', { is_nullable: 'NO' }), column('user_id', 'integer')],
+            primaryKey: { name: 'posts_pkey', columns: ['id'] },
+            indexes: [],
+            foreignKeys: [{
+                name: 'posts_user_id_fkey',
+                columns: ['user_id'],
+                foreignTable: 'users',
+                foreignColumns: ['id'],
+                updateRule: 'NO ACTION',
+                deleteRule: onDelete
+            }]
+        })
+        const fkChanges = diffSchemas(snapshot(usersTable(), posts('NO ACTION')), snapshot(usersTable(), posts('CASCADE')))
+        assert(fkChanges.map(change => change.kind).join(',') === 'dropForeignKey,addForeignKey', '外键变更应先删除再创建')
+        assert(fkChanges[1].sql.endsWith('REFERENCES "public"."users" ("id") ON DELETE CASCADE'), `外键语句错误: ${fkChanges[1].sql}`)
+        logSuccess('外键规则变更')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    }
+}
+
+main()
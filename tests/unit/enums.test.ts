@@ -0,0 +1,111 @@
+import { ColumnInfo, EnumTypeInfo, PostgreSQLIntrospector } from '../../src/adapters/pgsql/introspect'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+function column(name: string, dataType: string, overrides: Partial<ColumnInfo> = {}): ColumnInfo {
+    return {
+        column_name: name,
+        data_type: dataType,
+        is_nullable: 'NO',
+        column_default: null,
+        is_identity: 'NO',
+        udt_schema: 'pg_catalog',
+        udt_name: dataType,
+        domain_name: null,
+        character_maximum_length: null,
+        numeric_precision: null,
+        numeric_scale: null,
+        column_comment: null,
+        ...overrides
+    }
+}
+
+const orderStatus: EnumTypeInfo = { type_schema: 'public', type_name: 'order_status', type_comment: '订单状态', labels: ['pending', 'paid', "it's shipped"] }
+const auditLevel: EnumTypeInfo = { type_schema: 'audit', type_name: 'level', type_comment: null, labels: [] }
+
+function main() {
+    console.log('🚀 开始枚举和域类型生成单元测试')
+    console.log('='.repeat(60))
+
+    // 生成类型不需要数据库连接
+    const introspector = new PostgreSQLIntrospector()
+
+    try {
+        // ==================== 枚举类型测试 ====================
+        logTest('枚举类型测试')
+
+        assert(
+            introspector.generateEnumType(orderStatus) === `/** 订单状态 */\nexport type OrderStatus = 'pending' | 'paid' | 'it\\'s shipped'\n`,
+            `枚举联合类型错误: ${introspector.generateEnumType(orderStatus)}`
+        )
+        assert(introspector.generateEnumType(orderStatus, false).startsWith('export type OrderStatus'), '不包含注释时不应生成注释')
+        assert(introspector.generateEnumType(auditLevel) === 'export type Level = never\n', '没有取值的枚举应为 never')
+        logSuccess('枚举生成字符串字面量联合类型，取值中的引号被转义')
+
+        const enumColumns = [
+            column('status', 'USER-DEFINED', { udt_schema: 'public', udt_name: 'order_status' }),
+            column('history', 'ARRAY', { udt_schema: 'public', udt_name: '_order_status', is_nullable: 'YES' }),
+            column('level', 'USER-DEFINED', { udt_schema: 'public', udt_name: 'level' })
+        ]
+        const orders = introspector.generateInterface('orders', null, enumColumns, [], false, {}, [orderStatus, auditLevel])
+        assert(orders.includes('status: OrderStatus;'), `枚举列应使用枚举类型: ${orders}`)
+        assert(orders.includes('history: OrderStatus[] | null;'), `枚举数组列应使用枚举数组类型: ${orders}`)
+        assert(orders.includes('level: any;'), `其他模式的同名枚举不应匹配: ${orders}`)
+        logSuccess('枚举列和枚举数组列使用联合类型，按模式匹配枚举')
+
+        const references = introspector.getEnumReferences('orders', enumColumns, [orderStatus, auditLevel])
+        assert(references.length === 1 && references[0] === orderStatus, '表引用的枚举类型错误')
+        assert(
+            introspector.getEnumReferences('orders', enumColumns, [orderStatus], { typeOverrides: { 'orders.status': 'string', 'orders.history': 'string[]' } }).length === 0,
+            '已覆盖类型的列不应引用枚举'
+        )
+        logSuccess('收集表引用的枚举类型，类型覆盖的列除外')
+
+        // ==================== 域类型测试 ====================
+        logTest('域类型测试')
+
+        // 域类型列的 data_type 和 udt_name 为基础类型
+        const domainColumns = [
+            column('email', 'text', { domain_name: 'email_address' }),
+            column('amount', 'numeric', { domain_name: 'positive_amount', numeric_precision: 10, numeric_scale: 2 }),
+            column('state', 'USER-DEFINED', { udt_schema: 'public', udt_name: 'order_status', domain_name: 'required_status' })
+        ]
+        const payments = introspector.generateInterface('payments', null, domainColumns, [], false, {}, [orderStatus])
+        assert(payments.includes('email: string;'), `文本域应按基础类型映射: ${payments}`)
+        assert(payments.includes('amount: number;'), `数值域应按基础类型映射: ${payments}`)
+        assert(payments.includes('state: OrderStatus;'), `基于枚举的域应使用枚举类型: ${payments}`)
+        logSuccess('域按基础类型生成，基于枚举的域使用枚举类型')
+
+        const overridden = introspector.generateInterface('payments', null, domainColumns, [], false, {
+            typeOverrides: { email_address: 'EmailAddress', 'payments.amount': 'string' }
+        }, [orderStatus])
+        assert(overridden.includes('email: EmailAddress;'), `应按域名覆盖类型: ${overridden}`)
+        assert(overridden.includes('amount: string;'), `列级覆盖应优先: ${overridden}`)
+        logSuccess('按域名或列名覆盖类型')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    }
+}
+
+main()
@@ -0,0 +1,93 @@
+import {
+    ConnectionError,
+    ForeignKeyViolationError,
+    IntegrityConstraintError,
+    PostgreSQLError,
+    QueryTimeoutError,
+    toPostgreSQLError,
+    UniqueViolationError
+} from '../../src/adapters/pgsql/errors'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+/**
+ * 模拟 pg 的 DatabaseError
+ */
+function databaseError(message: string, fields: Record<string, string>): Error {
+    return Object.assign(new Error(message), fields)
+}
+
+function main() {
+    console.log('🚀 开始错误类型单元测试')
+    console.log('='.repeat(60))
+
+    try {
+        // ==================== 约束冲突测试 ====================
+        logTest('约束冲突测试')
+
+        const raw = databaseError('duplicate key value violates unique constraint "users_email_key"', {
+            code: '23505',
+            schema: 'public',
+            table: 'users',
+            constraint: 'users_email_key',
+            detail: 'Key (email)=(john@example.com) already exists.'
+        })
+        const unique = toPostgreSQLError(raw, { sql: 'INSERT INTO users (email) VALUES ($1)', params: ['john@example.com'] })
+        assert(unique instanceof UniqueViolationError, '23505 应转换为 UniqueViolationError')
+        assert(unique instanceof IntegrityConstraintError && unique instanceof PostgreSQLError, '应继承约束冲突基类')
+
+        const error = unique as UniqueViolationError
+        assert(error.name === 'UniqueViolationError' && error.code === '23505', '错误名称或错误码错误')
+        assert(error.table === 'users' && error.constraint === 'users_email_key', '缺少表名或约束名')
+        assert(error.sql === 'INSERT INTO users (email) VALUES ($1)' && error.paramCount === 1, '缺少SQL或参数数量')
+        assert(error.cause === raw, '应保留原始错误')
+        assert(!JSON.stringify(error).includes('john@example.com'), '序列化结果不应包含参数值')
+        logSuccess('唯一约束冲突包含表、约束、SQL，不包含参数值')
+
+        assert(toPostgreSQLError(databaseError('insert or update violates foreign key', { code: '23503' })) instanceof ForeignKeyViolationError, '23503 应转换为 ForeignKeyViolationError')
+        assert(toPostgreSQLError(databaseError('exclusion violation', { code: '23P01' })) instanceof IntegrityConstraintError, '其他 23xxx 应转换为 IntegrityConstraintError')
+        logSuccess('按 SQLSTATE 类别转换')
+
+        // ==================== 连接与超时测试 ====================
+        logTest('连接与超时测试')
+
+        assert(toPostgreSQLError(databaseError('connect ECONNREFUSED 127.0.0.1:5432', { code: 'ECONNREFUSED' })) instanceof ConnectionError, '网络错误应转换为 ConnectionError')
+        assert(toPostgreSQLError(databaseError('terminating connection due to administrator command', { code: '57P01' })) instanceof ConnectionError, '57P01 应转换为 ConnectionError')
+        assert(toPostgreSQLError(databaseError('canceling statement due to statement timeout', { code: '57014' })) instanceof QueryTimeoutError, '57014 应转换为 QueryTimeoutError')
+        assert(toPostgreSQLError(new Error('Query read timeout')) instanceof QueryTimeoutError, '客户端超时应转换为 QueryTimeoutError')
+        logSuccess('连接错误和查询超时')
+
+        const plain = new Error('something else')
+        assert(toPostgreSQLError(plain) === plain, '非数据库错误应原样返回')
+        for (const code of ['EPERM', 'EBADF', 'EROFS']) {
+            const system = Object.assign(new Error(`${code}: operation failed`), { code, errno: -1, syscall: 'open' })
+            assert(toPostgreSQLError(system) === system, `${code} 不应作为 SQLSTATE`)
+        }
+        logSuccess('非数据库错误和 Node 系统错误原样返回')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    }
+}
+
+main()
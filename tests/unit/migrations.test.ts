@@ -0,0 +1,136 @@
+import { computeChecksum, createMigration, formatMigrationVersion, loadMigrations, Migrator } from '../../src/migrations'
+import fs from 'fs'
+import path from 'path'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+/**
+ * 记录执行的SQL的模拟客户端，历史表不存在
+ * @param failWith 执行迁移SQL时抛出的错误
+ * @param unlockError 释放 advisory lock 时抛出的错误
+ */
+function createFakeClient(failWith?: Error, unlockError?: Error) {
+    const queries: string[] = []
+    const client = {
+        query: async (sql: string) => {
+            queries.push(sql.trim())
+            if (sql.includes('to_regclass')) {
+                return { rows: [{ exists: false }] }
+            }
+            if (failWith && sql.startsWith('CREATE TABLE a')) {
+                throw failWith
+            }
+            if (unlockError && sql.includes('pg_advisory_unlock')) {
+                throw unlockError
+            }
+            return { rows: [] }
+        }
+    }
+    const postgres = {
+        getClient: async () => client,
+        transaction: async (callback: (tx: any) => Promise<any>) => callback(client)
+    }
+    return { postgres: postgres as any, queries }
+}
+
+async function main() {
+    console.log('🚀 开始迁移文件单元测试')
+    console.log('='.repeat(60))
+
+    const directory = './test-generated/migrations'
+    fs.rmSync(directory, { recursive: true, force: true })
+
+    try {
+        // ==================== 版本号测试 ====================
+        logTest('版本号测试')
+
+        assert(formatMigrationVersion(new Date('2024-01-15T10:30:00.123Z')) === '20240115103000', '版本号格式错误')
+        logSuccess('版本号按 UTC 时间生成')
+
+        // ==================== 创建与读取测试 ====================
+        logTest('创建与读取迁移测试')
+
+        const created = createMigration('Create Users', directory)
+        assert(created.name === 'create_users', `迁移名称规范化错误: ${created.name}`)
+        assert(fs.existsSync(created.upPath) && fs.existsSync(created.downPath!), '迁移文件未创建')
+        logSuccess('创建 up/down 迁移文件')
+
+        // 没有 down 文件的迁移不能回滚
+        fs.writeFileSync(path.join(directory, '20000101000000_init.up.sql'), 'CREATE TABLE a (id INT);\n')
+        const migrations = loadMigrations(directory)
+        assert(migrations.map(m => m.version).join(',') === `20000101000000,${created.version}`, '迁移未按版本排序')
+        assert(migrations[0].downPath === null, '缺少 down 文件时 downPath 应为 null')
+        logSuccess('按版本读取迁移文件')
+
+        // ==================== 校验和测试 ====================
+        logTest('校验和测试')
+
+        assert(computeChecksum('SELECT 1;\r\n') === computeChecksum('SELECT 1;\n'), '校验和应忽略换行符差异')
+        fs.appendFileSync(migrations[0].upPath, 'CREATE TABLE b (id INT);\n')
+        assert(loadMigrations(directory)[0].checksum !== migrations[0].checksum, '修改迁移后校验和应改变')
+        logSuccess('校验和检测迁移文件修改')
+
+        // ==================== 迁移执行测试 ====================
+        logTest('迁移执行测试')
+
+        const readOnly = createFakeClient()
+        const statuses = await new Migrator(readOnly.postgres, { directory }).status()
+        assert(statuses.length === 2 && statuses.every(status => status.state === 'pending'), '历史表不存在时所有迁移应为未执行')
+        assert(!readOnly.queries.some(sql => sql.startsWith('CREATE')), `status() 不应创建历史表: ${readOnly.queries.join(';')}`)
+        logSuccess('status() 不创建历史表')
+
+        const sqlError = Object.assign(new Error('relation "a" already exists'), { code: '42P07' })
+        const failing = createFakeClient(sqlError)
+        let error: any
+        try {
+            await new Migrator(failing.postgres, { directory }).up()
+        } catch (e) {
+            error = e
+        }
+        assert(failing.queries.some(sql => sql.startsWith('CREATE TABLE IF NOT EXISTS')), 'up() 应创建历史表')
+        assert(error?.message === 'Migration 20000101000000_init failed: relation "a" already exists', `迁移失败的错误信息错误: ${error?.message}`)
+        assert(error.cause === sqlError && error.cause.code === '42P07', '迁移失败时应保留原始错误')
+        logSuccess('迁移失败时通过 cause 保留原始错误')
+
+        const broken = createFakeClient(sqlError, new Error('Connection terminated unexpectedly'))
+        error = undefined
+        try {
+            await new Migrator(broken.postgres, { directory }).up()
+        } catch (e) {
+            error = e
+        }
+        assert(error?.cause === sqlError, `解锁失败不应覆盖迁移错误: ${error?.message}`)
+        assert(broken.queries.some(sql => sql.includes('pg_advisory_unlock')), '迁移失败后应尝试解锁')
+        logSuccess('迁移失败后解锁出错时抛出迁移错误')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true })
+    }
+}
+
+main().catch(e => {
+    console.error('\n💥 测试执行失败:', e)
+    process.exit(1)
+})
@@ -0,0 +1,96 @@
+import { count, MySQLAdapter, MySQLQueryBuilder } from '../../src/adapters/mysql'
+
+interface Event {
+    id: number
+    name: string
+    meta: Record<string, any> | null
+    created_at: string
+}
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+/**
+ * 记录传给驱动的语句和参数的模拟连接池
+ */
+function createAdapter() {
+    const adapter = new MySQLAdapter({ host: 'localhost', port: 3306, user: 'root', password: 'root', database: 'test' })
+    const calls: { sql: string, params: any[] }[] = []
+    ;(adapter as any).pool = {
+        query: async (sql: string, params: any[]) => {
+            calls.push({ sql, params })
+            return [{ affectedRows: 1, insertId: 1 }]
+        }
+    }
+    return { adapter, calls }
+}
+
+async function main() {
+    console.log('🚀 开始 MySQL 适配器单元测试')
+    console.log('='.repeat(60))
+
+    try {
+        // ==================== 参数转换测试 ====================
+        logTest('参数转换测试')
+
+        const { adapter, calls } = createAdapter()
+        const events = MySQLQueryBuilder.from<Event>('events', adapter)
+
+        await events.insert({ name: 'signup', meta: { source: 'ads', tags: ['a', 'b'] } }).exec()
+        assert(calls[0].sql === 'INSERT INTO `events` (`name`, `meta`) VALUES (?, ?)', `插入语句错误: ${calls[0].sql}`)
+        assert(calls[0].params[1] === '{"source":"ads","tags":["a","b"]}', `对象参数应序列化为JSON: ${calls[0].params[1]}`)
+        logSuccess('对象参数序列化为JSON，不会被驱动展开为 `key` = value 列表')
+
+        await adapter.query('UPDATE `events` SET `meta` = ? WHERE `id` = ?', [[1, 2], 1])
+        assert(calls[1].params[0] === '[1,2]' && calls[1].params[1] === 1, `数组参数应序列化为JSON: ${calls[1].params[0]}`)
+        logSuccess('数组参数序列化为JSON，不会被驱动展开为逗号分隔的值')
+
+        const date = new Date('2024-01-02T03:04:05Z')
+        const buffer = Buffer.from([1, 2])
+        await adapter.query('INSERT INTO `files` VALUES (?, ?, ?, ?)', [date, buffer, null, undefined])
+        const [dateParam, bufferParam, nullParam, undefinedParam] = calls[2].params
+        assert(dateParam === date && bufferParam === buffer, 'Date 和 Buffer 应交给驱动处理')
+        assert(nullParam === null && undefinedParam === null, 'null 和 undefined 应绑定为 NULL')
+        logSuccess('Date、Buffer 和 NULL 保持原样')
+
+        // ==================== 结果类型测试 ====================
+        logTest('结果类型测试')
+
+        const counted = MySQLQueryBuilder.from<Event>('events', adapter).select('name', { total: count() }).groupBy('name')
+        type CountedRow = Awaited<ReturnType<typeof counted.exec>>['rows'][number]
+        const row: CountedRow = { name: 'signup', total: 1 }
+        // @ts-expect-error 未选择的列不在结果类型中
+        row.meta
+        // @ts-expect-error 聚合列的类型为数字
+        const wrongTotal: CountedRow = { name: 'signup', total: 'one' }
+        assert(row.total === 1 && wrongTotal, '结果类型检查')
+        logSuccess('exec() 的结果行类型为所选的列和聚合')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    }
+}
+
+main().catch(e => {
+    console.error('\n💥 测试执行失败:', e)
+    process.exit(1)
+})
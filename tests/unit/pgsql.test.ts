@@ -8,7 +8,11 @@ const exist = fs.existsSync(path.join(__dirname, '../../.env.dev'))
 console.log('Environment file exists:', exist)
 dotenv.config({ path: path.join(__dirname, '../../.env.dev'), encoding: 'utf-8' })
 
-import { KvStoreCopy } from '../../generated-types/minimal/database-types'
+interface KvStoreCopy {
+    id: number
+    name: string
+    value: string | null
+}
 
 // 测试辅助函数
 function assert(condition: any, message: string) {
@@ -183,7 +187,7 @@ async function main() {
         // 全表删除
         console.log('🗑️ 测试全表删除...')
         result = await sql.where({ name: { $isNull: false } }).delete().exec()
-        assert(result.rowCount >= 0, '全表删除失败')
+        assert(result.rowCount !== null && result.rowCount >= 0, '全表删除失败')
         logSuccess('全表删除成功')
 
         // ==================== UPSERT 测试 ====================
@@ -0,0 +1,140 @@
+import { generateFromSnapshot, readSnapshotFile, writeSnapshotFile } from '../../src/adapters/pgsql/snapshot'
+import { ColumnInfo, SchemaSnapshot } from '../../src/adapters/pgsql/introspect'
+import fs from 'fs'
+import path from 'path'
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+function column(name: string, dataType: string, overrides: Partial<ColumnInfo> = {}): ColumnInfo {
+    return {
+        column_name: name,
+        data_type: dataType,
+        is_nullable: 'NO',
+        column_default: null,
+        is_identity: 'NO',
+        udt_schema: 'pg_catalog',
+        udt_name: dataType,
+        domain_name: null,
+        character_maximum_length: null,
+        numeric_precision: null,
+        numeric_scale: null,
+        column_comment: null,
+        ...overrides
+    }
+}
+
+const snapshot: SchemaSnapshot = {
+    version: 1,
+    dialect: 'pgsql',
+    schema: 'public',
+    enums: [{ type_schema: 'public', type_name: 'order_status', type_comment: '订单状态', labels: ['pending', 'paid'] }],
+    tables: [
+        {
+            tableName: 'users',
+            tableType: 'BASE TABLE',
+            tableComment: '用户表',
+            columns: [
+                column('id', 'integer', { column_default: "nextval('users_id_seq'::regclass)" }),
+                column('name', 'text', { column_comment: '用户名' })
+            ],
+            primaryKey: { name: 'users_pkey', columns: ['id'] },
+            indexes: [],
+            foreignKeys: []
+        },
+        {
+            tableName: 'orders',
+            tableType: 'BASE TABLE',
+            tableComment: null,
+            columns: [
+                column('id', 'integer', { is_identity: 'YES' }),
+                column('user_id', 'integer'),
+                column('status', 'USER-DEFINED', { udt_schema: 'public', udt_name: 'order_status' })
+            ],
+            primaryKey: { name: 'orders_pkey', columns: ['id'] },
+            indexes: [],
+            foreignKeys: [{
+                name: 'orders_user_id_fkey',
+                columns: ['user_id'],
+                foreignTable: 'users',
+                foreignColumns: ['id'],
+                updateRule: 'NO ACTION',
+                deleteRule: 'CASCADE'
+            }]
+        }
+    ]
+}
+
+function main() {
+    console.log('🚀 开始结构快照单元测试')
+    console.log('='.repeat(60))
+
+    const directory = './test-generated/snapshot'
+    fs.rmSync(directory, { recursive: true, force: true })
+
+    try {
+        // ==================== 快照文件测试 ====================
+        logTest('快照文件测试')
+
+        const filePath = path.join(directory, 'schema.snapshot.json')
+        writeSnapshotFile(filePath, snapshot)
+        assert(JSON.stringify(readSnapshotFile(filePath)) === JSON.stringify(snapshot), '读取的快照与保存的不一致')
+        logSuccess('快照保存与读取')
+
+        fs.writeFileSync(filePath, JSON.stringify({ ...snapshot, version: 99 }))
+        let error: unknown
+        try {
+            readSnapshotFile(filePath)
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof Error && error.message.includes('Unsupported snapshot version'), '不支持的版本应抛出错误')
+        logSuccess('拒绝不支持的快照版本')
+
+        // ==================== 离线生成测试 ====================
+        logTest('离线生成测试')
+
+        const outputDir = path.join(directory, 'types')
+        const result = generateFromSnapshot(snapshot, outputDir)
+        assert(result.success, `生成失败: ${result.message}`)
+        assert(result.tables.join(',') === 'users,orders', `生成的表错误: ${result.tables.join(',')}`)
+
+        const enums = fs.readFileSync(path.join(outputDir, 'enums.ts'), 'utf-8')
+        assert(enums.includes(`export type OrderStatus = 'pending' | 'paid'`), '缺少枚举类型')
+
+        const orders = fs.readFileSync(path.join(outputDir, 'Orders.ts'), 'utf-8')
+        assert(orders.includes('status: OrderStatus'), '枚举列应使用枚举类型')
+        assert(orders.includes('id?: number'), 'identity 列在插入类型中应为可选')
+        assert(orders.includes('OrdersRelations'), '缺少表关系映射')
+
+        const users = fs.readFileSync(path.join(outputDir, 'Users.ts'), 'utf-8')
+        assert(users.includes('用户名'), '缺少列注释')
+        logSuccess('从快照生成接口、枚举、注释和表关系')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true })
+    }
+}
+
+main()
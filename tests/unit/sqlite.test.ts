@@ -0,0 +1,270 @@
+import { SQLiteAdapter, SQLiteQueryBuilder, sql as fragment } from '../../src/adapters/sqlite'
+import fs from 'fs'
+
+interface KvStore {
+    id: number
+    name: string
+    value: string | null
+}
+
+interface NewKvStore {
+    id?: number
+    name: string
+    value?: string | null
+}
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+async function main() {
+    console.log('🚀 开始 SQLite 适配器单元测试')
+    console.log('='.repeat(60))
+
+    // 使用内存数据库，无需外部服务
+    const adapter = new SQLiteAdapter({ filename: ':memory:' })
+    await adapter.query(`
+        CREATE TABLE kv_store (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            name VARCHAR(50) NOT NULL UNIQUE,
+            value TEXT
+        )
+    `)
+    await adapter.query(`
+        CREATE TABLE kv_tags (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            tag TEXT NOT NULL,
+            kv_id INTEGER NOT NULL REFERENCES kv_store(id) ON DELETE CASCADE
+        )
+    `)
+    const sql = SQLiteQueryBuilder.from<KvStore, NewKvStore>('kv_store', adapter)
+
+    try {
+        // ==================== INSERT 测试 ====================
+        logTest('INSERT 操作测试')
+
+        let result = await sql.insert({ name: 'test_key', value: 'test_value' }).exec()
+        assert(result.rowCount === 1, '单条插入失败')
+        logSuccess('单条插入成功')
+
+        result = await sql.insertMany([
+            { name: 'key1', value: 'value1' },
+            { name: 'key2', value: 'value2' },
+            { name: 'key3', value: 'value3' }
+        ]).exec()
+        assert(result.rowCount === 3, '批量插入失败')
+        logSuccess('批量插入成功')
+
+        // ==================== SELECT 测试 ====================
+        logTest('SELECT 操作测试')
+
+        let rows = await sql.select().execMany()
+        assert(rows.length === 4, '全表查询失败')
+        logSuccess(`全表查询成功，共 ${rows.length} 条记录`)
+
+        let one = await sql.select().where({ name: 'key1' }).execOne()
+        assert(one && one.value === 'value1', '条件查询失败')
+        logSuccess('条件查询成功')
+
+        rows = await sql.select().where({
+            name: { $in: ['key1', 'key2'] },
+            value: { $like: 'value%' }
+        }).execMany()
+        assert(rows.length === 2, '复杂条件查询失败')
+        logSuccess('复杂条件查询成功')
+
+        const count = await sql.where({ name: { $neq: 'test_key' } }).execCount()
+        sql.clear()
+        assert(count === 3, '计数查询失败')
+        logSuccess('计数查询成功')
+
+        // ==================== UPDATE / DELETE 测试 ====================
+        logTest('UPDATE / DELETE 操作测试')
+
+        result = await sql.where({ name: 'key1' }).update({ value: 'updated_value' }).exec()
+        assert(result.rowCount === 1, '单条更新失败')
+        one = await sql.select().where({ name: 'key1' }).execOne()
+        assert(one && one.value === 'updated_value', '更新验证失败')
+        logSuccess('更新成功')
+
+        result = await sql.where({ name: { $in: ['key2', 'key3'] } }).delete().exec()
+        assert(result.rowCount === 2, '批量删除失败')
+        logSuccess('批量删除成功')
+
+        // ==================== UPSERT 测试 ====================
+        logTest('UPSERT 操作测试')
+
+        await sql.insert(
+            { name: 'key1', value: 'ignored' },
+            { onConflict: { columns: ['name'] } }
+        ).exec()
+        one = await sql.select().where({ name: 'key1' }).execOne()
+        assert(one && one.value === 'updated_value', 'ON CONFLICT DO NOTHING 失败')
+        logSuccess('ON CONFLICT DO NOTHING 成功')
+
+        await sql.insert(
+            { name: 'key1', value: 'upserted' },
+            { onConflict: { columns: ['name'], update: ['value'] } }
+        ).exec()
+        one = await sql.select().where({ name: 'key1' }).execOne()
+        assert(one && one.value === 'upserted', 'ON CONFLICT DO UPDATE 失败')
+        logSuccess('ON CONFLICT DO UPDATE 成功')
+
+        await sql.insertMany([{ name: 'u1', value: 'a' }, { name: 'u2', value: 'b' }]).exec()
+        await sql.insertMany(
+            [{ name: 'u1', value: 'x' }, { name: 'u2', value: 'y' }],
+            { onConflict: { columns: ['name'], update: ['value'], updateWhere: { name: { $neq: 'u2' } } } }
+        ).exec()
+        rows = await sql.select().where({ name: { $in: ['u1', 'u2'] } }).orderBy('name').execMany()
+        assert(rows.map(row => row.value).join(',') === 'x,b', `多行 UPSERT 结果错误: ${rows.map(row => row.value).join(',')}`)
+        await sql.where({ name: { $in: ['u1', 'u2'] } }).delete().exec()
+        logSuccess('多行 UPSERT 使用各自的插入值，DO UPDATE ... WHERE 生效')
+
+        // ==================== 分页测试 ====================
+        logTest('分页测试')
+
+        await sql.insertMany(['p1', 'p2', 'p3', 'p4', 'p5'].map(name => ({ name, value: 'page' }))).exec()
+
+        const firstPage = await sql.where({ value: 'page' }).paginate({ first: 2, orderBy: [['name', 'DESC'], 'id'] })
+        assert(firstPage.items.map(row => row.name).join(',') === 'p5,p4' && firstPage.hasMore, '键集分页第一页错误')
+        // 翻页之间插入的行不影响后续页
+        await sql.insert({ name: 'p0', value: 'page' }).exec()
+        const names: string[] = firstPage.items.map(row => row.name)
+        let cursor = firstPage.nextCursor
+        while (cursor) {
+            const page = await sql.where({ value: 'page' }).paginate({ first: 2, orderBy: [['name', 'DESC'], 'id'], cursor })
+            names.push(...page.items.map(row => row.name))
+            cursor = page.nextCursor
+        }
+        assert(names.join(',') === 'p5,p4,p3,p2,p1,p0', `键集分页结果错误: ${names.join(',')}`)
+        logSuccess('键集分页按游标翻页，不重复不遗漏')
+
+        let missing: unknown
+        try {
+            await sql.select('name').where({ value: 'page' }).paginate({ first: 2, orderBy: ['id'] })
+        } catch (error) {
+            missing = error
+        }
+        sql.clear()
+        assert(missing instanceof Error && missing.message === 'Cursor column "id" must be included in select()', `缺少排序列时应在查询前报错: ${missing}`)
+        logSuccess('排序列不在查询列中时执行前报错')
+
+        const offsetPage = await sql.select('name').where({ value: 'page' }).orderBy('name').paginate({ page: 2, pageSize: 4 })
+        assert(offsetPage.total === 6 && offsetPage.pages === 2, `页码分页总数错误: ${offsetPage.total}`)
+        assert(offsetPage.items.map(row => row.name).join(',') === 'p4,p5', '页码分页结果错误')
+        assert(Object.keys(offsetPage.items[0]).join(',') === 'name', '结果中不应包含总行数列')
+        const beyond = await sql.where({ value: 'page' }).paginate({ page: 5, pageSize: 4 })
+        assert(beyond.items.length === 0 && beyond.total === 6, '超出范围的页应返回总行数')
+        logSuccess('页码分页在同一查询中返回总行数')
+
+        await sql.insertMany([['g1', 'ga'], ['g2', 'ga'], ['g3', 'gb'], ['g4', 'gb']].map(([name, value]) => ({ name, value }))).exec()
+        const grouped = () => sql.select('value').where({ value: { $in: ['ga', 'gb'] } }).groupBy('value').orderBy('value')
+        const groupedPage = await grouped().paginate({ page: 1, pageSize: 1 })
+        assert(groupedPage.total === 2 && groupedPage.pages === 2, `分组查询的总数应为分组数: ${groupedPage.total}`)
+        const groupedBeyond = await grouped().paginate({ page: 5, pageSize: 1 })
+        assert(groupedBeyond.items.length === 0 && groupedBeyond.total === 2 && groupedBeyond.pages === 2, `超出范围时分组查询的总数错误: ${groupedBeyond.total}`)
+        await sql.delete().where({ value: { $in: ['ga', 'gb'] } }).exec()
+        logSuccess('分组查询超出范围时统计分组数')
+
+        const skipped = await sql.select('name').where({ value: 'page' }).orderBy('name').offset(4).execMany()
+        assert(skipped.map(row => row.name).join(',') === 'p4,p5', `只有偏移量时结果错误: ${skipped.map(row => row.name).join(',')}`)
+        logSuccess('只设置 offset() 时使用 LIMIT -1')
+
+        // 两个表都有 id 列，排序和游标条件必须保留表名
+        const pageRows = await sql.select('id', 'name').where({ value: 'page' }).orderBy('name').execMany()
+        for (const row of pageRows.filter(row => ['p1', 'p3', 'p5'].includes(row.name))) {
+            await adapter.query('INSERT INTO kv_tags (tag, kv_id) VALUES (?, ?)', ['page', row.id])
+        }
+        const joined = () => sql.select({ id: fragment.id('kv_store.id'), name: fragment.id('kv_store.name') })
+            .join('kv_tags', 'kv_tags.kv_id = kv_store.id')
+            .where(`kv_tags.tag = 'page'`)
+            .orderBy('kv_store.id', 'DESC')
+        const joinedFirst = await joined().paginate({ first: 2 })
+        const joinedNext = await joined().paginate({ first: 2, cursor: joinedFirst.nextCursor })
+        assert(
+            [...joinedFirst.items, ...joinedNext.items].map(row => row.name).join(',') === 'p5,p3,p1' && !joinedNext.hasMore,
+            `连接查询的键集分页结果错误: ${[...joinedFirst.items, ...joinedNext.items].map(row => row.name).join(',')}`
+        )
+        await adapter.query(`DELETE FROM kv_tags WHERE tag = 'page'`)
+        logSuccess('连接查询的键集分页使用带表名的排序列')
+
+        await sql.where({ value: 'page' }).delete().exec()
+
+        // ==================== 子查询测试 ====================
+        logTest('子查询测试')
+
+        const tagged = await sql.insert({ name: 'tagged', value: 'sub' }).returning('id').execOne()
+        await sql.insert({ name: 'untagged', value: 'sub' }).exec()
+        await adapter.query('INSERT INTO kv_tags (tag, kv_id) VALUES (?, ?)', ['hot', tagged!.id])
+        const tags = () => SQLiteQueryBuilder.from<{ tag: string, kv_id: number }>('kv_tags', adapter)
+
+        rows = await sql.where({ value: 'sub' }).whereExists(tags().where(fragment`${fragment.id('kv_tags.kv_id')} = ${fragment.id('kv_store.id')}`)).execMany()
+        assert(rows.length === 1 && rows[0].name === 'tagged', 'EXISTS 子查询结果错误')
+        rows = await sql.where({ id: { $nin: tags().select('kv_id').where({ tag: 'hot' }) }, value: 'sub' }).execMany()
+        assert(rows.length === 1 && rows[0].name === 'untagged', 'NOT IN 子查询结果错误')
+        logSuccess('EXISTS 和 NOT IN 子查询执行成功')
+
+        await sql.where({ value: 'sub' }).delete().exec()
+
+        // ==================== 数据库内省测试 ====================
+        logTest('数据库内省测试')
+
+        const introspector = adapter.getIntrospector()
+        const tables = await adapter.getAllTables()
+        assert(tables.map(t => t.name).join(',') === 'kv_store,kv_tags', '获取所有表失败')
+        logSuccess(`获取所有表成功，共 ${tables.length} 个表`)
+
+        const foreignKeys = await introspector.getForeignKeys('kv_tags')
+        assert(foreignKeys.length === 1 && foreignKeys[0].foreign_table_name === 'kv_store', '获取外键失败')
+        logSuccess('获取外键成功')
+
+        const indexes = await introspector.getIndexes('kv_store')
+        assert(indexes.some(index => index.column_name === 'name' && index.is_unique), '获取索引失败')
+        logSuccess('获取索引成功')
+
+        const iface = await adapter.generateTableInterface('kv_store')
+        assert(iface.includes('export interface KvStore'), '生成接口失败')
+        assert(iface.includes('id: number;') && iface.includes('value: string | null;'), `接口字段类型错误: ${iface}`)
+        logSuccess('生成TypeScript接口成功')
+
+        const newRow = iface.slice(iface.indexOf('export interface NewKvStore'), iface.indexOf('export interface KvStorePatch'))
+        assert(newRow.includes('id?: number;') && newRow.includes('name: string;') && newRow.includes('value?: string | null;'), `插入类型错误: ${newRow}`)
+        const patch = iface.slice(iface.indexOf('export interface KvStorePatch'))
+        assert(!patch.includes('id') && patch.includes('name?: string;'), `更新类型错误: ${patch}`)
+        logSuccess('生成插入和更新类型成功')
+
+        const introspectResult = await adapter.introspect('./test-generated/sqlite', { singleFile: true })
+        assert(introspectResult.success, `内省失败: ${introspectResult.message}`)
+        logSuccess(introspectResult.message)
+        fs.rmSync('./test-generated/sqlite', { recursive: true, force: true })
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    } finally {
+        await adapter.close()
+        console.log('🔌 数据库连接已关闭')
+    }
+}
+
+main().catch(e => {
+    console.error('\n💥 测试执行失败:', e)
+    process.exit(1)
+})
@@ -0,0 +1,376 @@
+import { PostgreSQLAdapter, PostgreSQLQueryBuilder, SerializationFailureError } from '../../src/adapters/pgsql'
+import { PostgreSQLClient } from '../../src/adapters/pgsql/client'
+import { computeRetryDelay } from '../../src/adapters/pgsql/retry'
+import { encodeCopyValue } from '../../src/adapters/pgsql/copy'
+import { defaults } from 'pg'
+
+interface User {
+    id: number
+    name: string
+}
+
+// 测试辅助函数
+function assert(condition: any, message: string) {
+    if (!condition) throw new Error(message)
+}
+
+function logTest(testName: string) {
+    console.log(`\n🧪 ${testName}`)
+    console.log('─'.repeat(50))
+}
+
+function logSuccess(message: string) {
+    console.log(`✅ ${message}`)
+}
+
+function logError(message: string) {
+    console.log(`❌ ${message}`)
+}
+
+/**
+ * 记录执行语句的模拟连接，SQL 包含 fail 时抛出错误，包含 conflict 时抛出序列化失败
+ */
+function createFakePool() {
+    // batches 依次作为 FETCH 的结果，Error 表示该次读取失败
+    const state = { queries: [] as string[], connects: 0, releases: 0, batches: [] as (any[] | Error)[], copied: '' }
+    const respond = async (sql: string) => {
+        state.queries.push(sql)
+        if (sql.startsWith('FETCH')) {
+            const batch = state.batches.shift() || []
+            if (batch instanceof Error) throw batch
+            return { rows: batch, rowCount: batch.length }
+        }
+        if (sql.includes('fail')) throw new Error('query failed')
+        if (sql.includes('conflict')) throw Object.assign(new Error('could not serialize access'), { code: '40001' })
+        return { rows: [{ id: 1, name: 'John' }], rowCount: 1 }
+    }
+    // COPY 查询：模拟服务端解析 CopyData('d') 和 CopyDone('c') 消息，结束后返回命令标签
+    const copy = (query: any) => {
+        let received = Buffer.alloc(0)
+        const connection = {
+            query: (sql: string) => state.queries.push(sql),
+            stream: {
+                write: (data: Buffer) => {
+                    received = Buffer.concat([received, data])
+                    while (received.length >= 5 && received.length >= 1 + received.readUInt32BE(1)) {
+                        const end = 1 + received.readUInt32BE(1)
+                        const type = String.fromCharCode(received[0])
+                        const payload = received.subarray(5, end)
+                        received = received.subarray(end)
+                        if (type === 'd') state.copied += payload.toString()
+                        if (type === 'c') process.nextTick(() => {
+                            query.handleCommandComplete({ text: `COPY ${state.copied.split('\n').length - 1}` })
+                            query.handleReadyForQuery()
+                        })
+                    }
+                    return true
+                }
+            },
+            sendCopyFail: (message: string) => {
+                process.nextTick(() => query.handleError(new Error(`COPY from stdin failed: ${message}`)))
+            }
+        }
+        query.submit(connection)
+        query.handleCopyInResponse(connection)
+        return query
+    }
+    const client = {
+        query: (sql: any) => typeof sql.submit === 'function' ? copy(sql) : respond(sql),
+        release: () => {
+            state.releases++
+        }
+    }
+    const pool = {
+        connect: async () => {
+            state.connects++
+            return client
+        }
+    }
+    return { pool, state }
+}
+
+function createAdapter() {
+    const adapter = new PostgreSQLAdapter({ host: 'localhost', port: 5432, user: 'postgres', password: 'postgres', database: 'test' })
+    const { pool, state } = createFakePool()
+    ;(adapter as any).pool = pool
+    return { adapter, state }
+}
+
+async function main() {
+    console.log('🚀 开始事务单元测试')
+    console.log('='.repeat(60))
+
+    try {
+        // ==================== 提交与回滚测试 ====================
+        logTest('提交与回滚测试')
+
+        const committed = createAdapter()
+        const user = await committed.adapter.transaction(async (tx) => {
+            await tx.from<User>('users').update({ name: 'Jane' }).where({ id: 1 }).exec()
+            return await tx.from<User>('users').where({ id: 1 }).execOne()
+        })
+        assert(user?.name === 'John', '应返回回调的结果')
+        assert(committed.state.queries[0] === 'BEGIN', '事务应以 BEGIN 开始')
+        assert(committed.state.queries[committed.state.queries.length - 1] === 'COMMIT', '事务应提交')
+        assert(committed.state.queries.length === 4, '构建器查询应在事务连接上执行')
+        assert(committed.state.connects === 1 && committed.state.releases === 1, '应只取出并归还一个连接')
+        logSuccess('回调成功时提交，构建器使用事务连接')
+
+        const rolledBack = createAdapter()
+        let error: unknown
+        try {
+            await rolledBack.adapter.transaction(async (tx) => {
+                await tx.query('SELECT fail')
+            })
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof Error && error.message === 'query failed', '应抛出回调中的错误')
+        assert(rolledBack.state.queries.join(',') === 'BEGIN,SELECT fail,ROLLBACK', `回滚语句错误: ${rolledBack.state.queries.join(',')}`)
+        assert(rolledBack.state.releases === 1, '回滚后应归还连接')
+        logSuccess('回调抛出错误时回滚')
+
+        // ==================== 事务选项测试 ====================
+        logTest('事务选项测试')
+
+        const serializable = createAdapter()
+        await serializable.adapter.transaction(async () => {}, { isolationLevel: 'SERIALIZABLE', readOnly: true, deferrable: true })
+        assert(serializable.state.queries[0] === 'BEGIN ISOLATION LEVEL SERIALIZABLE READ ONLY DEFERRABLE', `BEGIN 语句错误: ${serializable.state.queries[0]}`)
+        logSuccess('隔离级别和访问模式')
+
+        // ==================== 保存点测试 ====================
+        logTest('保存点测试')
+
+        const nested = createAdapter()
+        let leaked: any
+        await nested.adapter.transaction(async (tx) => {
+            await tx.transaction(async (inner) => {
+                leaked = inner
+                await inner.query('SELECT 1')
+            })
+            await tx.transaction(async (inner) => {
+                await inner.query('SELECT fail')
+            }).catch(() => {})
+        })
+        assert(
+            nested.state.queries.join(',') === [
+                'BEGIN',
+                'SAVEPOINT typosql_sp_1', 'SELECT 1', 'RELEASE SAVEPOINT typosql_sp_1',
+                'SAVEPOINT typosql_sp_1', 'SELECT fail', 'ROLLBACK TO SAVEPOINT typosql_sp_1',
+                'COMMIT'
+            ].join(','),
+            `保存点语句错误: ${nested.state.queries.join(',')}`
+        )
+        logSuccess('嵌套事务使用保存点，失败时只回滚保存点')
+
+        error = undefined
+        try {
+            await leaked.query('SELECT 1')
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof Error && error.message.includes('already been committed'), '事务结束后不能继续使用')
+        logSuccess('事务结束后拒绝查询')
+
+        // ==================== 重试测试 ====================
+        logTest('重试测试')
+
+        const retried = createAdapter()
+        const retries: number[] = []
+        let attempts = 0
+        const value = await retried.adapter.transaction(async (tx) => {
+            attempts++
+            if (attempts < 3) await tx.query('SELECT conflict')
+            return attempts
+        }, { retry: { maxAttempts: 3, baseDelayMs: 1, onRetry: (_error, attempt) => { retries.push(attempt) } } })
+        assert(value === 3, '第三次尝试应成功')
+        assert(retries.join(',') === '2,3', `onRetry 调用错误: ${retries.join(',')}`)
+        assert(retried.state.connects === 3 && retried.state.releases === 3, '每次尝试应使用新的事务')
+        logSuccess('序列化失败时重新执行事务')
+
+        const exhausted = createAdapter()
+        error = undefined
+        try {
+            await exhausted.adapter.transaction(async (tx) => {
+                await tx.query('SELECT conflict')
+            }, { retry: { maxAttempts: 2, baseDelayMs: 1 } })
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof SerializationFailureError && error.code === '40001', '应抛出类型化的序列化失败错误')
+        assert(exhausted.state.connects === 2, '达到最大次数后不再重试')
+        logSuccess('达到最大次数后抛出 SerializationFailureError')
+
+        const plain = createAdapter()
+        await plain.adapter.transaction(async (tx) => {
+            await tx.query('SELECT fail')
+        }, { retry: true }).catch(() => {})
+        assert(plain.state.connects === 1, '不可重试的错误不应重试')
+        logSuccess('只重试 40001 和 40P01')
+
+        // 连接断开时 ROLLBACK 也会失败，应按回调中的错误判断是否重试
+        const postgres = new PostgreSQLClient({ host: 'localhost', port: 5432, user: 'postgres', password: '', database: 'test' })
+        const ended: string[] = []
+        const disconnected = {
+            query: async (sql: string) => {
+                if (sql === 'ROLLBACK') throw new Error('Connection terminated unexpectedly')
+                if (sql === 'BEGIN') return { rows: [] }
+                throw Object.assign(new Error('could not serialize access'), { code: '40001' })
+            },
+            end: async () => { ended.push('end') }
+        }
+        ;(postgres as any).client = disconnected
+        ;(postgres as any).isConnected = true
+        error = undefined
+        try {
+            await postgres.transaction(async client => client.query('UPDATE users SET name = $1', ['x']))
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof SerializationFailureError, `回滚失败不应覆盖原始错误: ${error}`)
+        assert((postgres as any).client === null && ended.length === 1, '回滚失败后应断开连接')
+        logSuccess('回滚失败时抛出原始错误并断开连接')
+
+        for (let retry = 1; retry <= 10; retry++) {
+            const delay = computeRetryDelay(retry, { baseDelayMs: 100, maxDelayMs: 1000 })
+            const ceiling = Math.min(1000, 100 * 2 ** (retry - 1))
+            assert(delay >= ceiling / 2 && delay <= ceiling, `等待时间超出范围: ${delay}`)
+        }
+        logSuccess('指数退避带随机抖动，且不超过上限')
+
+        // ==================== 流式读取测试 ====================
+        logTest('流式读取测试')
+
+        const streamed = createAdapter()
+        streamed.state.batches = [[{ id: 1 }, { id: 2 }], [{ id: 3 }]]
+        const ids: number[] = []
+        for await (const row of PostgreSQLQueryBuilder.from<User>('users', streamed.adapter).where({ name: 'John' }).stream({ batchSize: 2 })) {
+            ids.push(row.id)
+        }
+        assert(ids.join(',') === '1,2,3', `流式读取结果错误: ${ids.join(',')}`)
+        assert(streamed.state.queries.join(';') === [
+            'BEGIN',
+            'DECLARE typosql_cursor_0_1 NO SCROLL CURSOR FOR SELECT * FROM "users" WHERE "name" = $1',
+            'FETCH FORWARD 2 FROM typosql_cursor_0_1',
+            'FETCH FORWARD 2 FROM typosql_cursor_0_1',
+            'CLOSE typosql_cursor_0_1',
+            'COMMIT'
+        ].join(';'), `流式读取语句错误: ${streamed.state.queries.join(';')}`)
+        assert(streamed.state.connects === 1 && streamed.state.releases === 1, '遍历结束后应归还连接')
+        logSuccess('按批读取游标，读完后提交并归还连接')
+
+        const stopped = createAdapter()
+        stopped.state.batches = [[{ id: 1 }, { id: 2 }], [{ id: 3 }, { id: 4 }]]
+        for await (const row of stopped.adapter.stream<User>('SELECT * FROM users', [], { batchSize: 2 })) {
+            if (row.id === 1) break
+        }
+        assert(stopped.state.queries.filter(sql => sql.startsWith('FETCH')).length === 1, '提前 break 后不应继续读取')
+        assert(stopped.state.queries.slice(-2).join(',') === 'CLOSE typosql_cursor_0_1,ROLLBACK', `提前结束语句错误: ${stopped.state.queries.join(';')}`)
+        assert(stopped.state.releases === 1, '提前 break 后应归还连接')
+        logSuccess('提前 break 时关闭游标并归还连接')
+
+        const broken = createAdapter()
+        broken.state.batches = [[{ id: 1 }], new Error('fetch failed')]
+        error = undefined
+        try {
+            for await (const _row of broken.adapter.stream('SELECT * FROM users', [], { batchSize: 1 })) {}
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof Error && error.message === 'fetch failed', '应抛出读取时的错误')
+        assert(broken.state.queries[broken.state.queries.length - 1] === 'ROLLBACK', '读取出错时应回滚')
+        assert(broken.state.releases === 1, '读取出错时应归还连接')
+        logSuccess('读取出错时回滚并归还连接')
+
+        const inTx = createAdapter()
+        inTx.state.batches = [[{ id: 1 }]]
+        await inTx.adapter.transaction(async (tx) => {
+            for await (const _row of tx.from<User>('users').stream({ batchSize: 10 })) {}
+        })
+        assert(inTx.state.queries.join(';') === 'BEGIN;DECLARE typosql_cursor_0_1 NO SCROLL CURSOR FOR SELECT * FROM "users";FETCH FORWARD 10 FROM typosql_cursor_0_1;CLOSE typosql_cursor_0_1;COMMIT', `事务内流式读取语句错误: ${inTx.state.queries.join(';')}`)
+        assert(inTx.state.connects === 1, '事务内流式读取不应占用额外连接')
+        logSuccess('事务内使用当前连接声明游标')
+
+        error = undefined
+        try {
+            PostgreSQLQueryBuilder.from<User>('users', inTx.adapter).delete().stream()
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof Error && error.message === 'stream() only supports SELECT queries', '非 SELECT 查询应抛出错误')
+        logSuccess('只支持 SELECT 查询')
+
+        // ==================== 批量写入测试 ====================
+        logTest('批量写入测试')
+
+        assert(encodeCopyValue(null) === '\\N' && encodeCopyValue(undefined) === '\\N', 'null 应编码为 \\N')
+        assert(encodeCopyValue('a\tb\nc\\d') === 'a\\tb\\nc\\\\d', '制表符、换行和反斜杠应转义')
+        assert(encodeCopyValue(['x', 'say "hi"', null]) === '{"x","say \\\\"hi\\\\"",NULL}', `数组编码错误: ${encodeCopyValue(['x', 'say "hi"', null])}`)
+        assert(encodeCopyValue({ lang: 'zh' }) === '{"lang":"zh"}', 'JSON 对象编码错误')
+        assert(encodeCopyValue(Buffer.from([1, 255])) === '\\\\x01ff', 'bytea 应使用十六进制格式')
+        assert(encodeCopyValue(true) === 't', '布尔值编码错误')
+        logSuccess('按 COPY 文本格式编码 null、数组、JSON 和 bytea')
+
+        const local = new Date(2024, 0, 2, 3, 4, 5, 6)
+        const offset = -local.getTimezoneOffset()
+        const zone = `${offset < 0 ? '-' : '+'}${String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0')}:${String(Math.abs(offset) % 60).padStart(2, '0')}`
+        assert(encodeCopyValue(local) === `2024-01-02T03:04:05.006${zone}`, `时间应按本地时间编码: ${encodeCopyValue(local)}`)
+        assert(encodeCopyValue([local]) === `{"2024-01-02T03:04:05.006${zone}"}`, '时间数组编码错误')
+        defaults.parseInputDatesAsUTC = true
+        try {
+            const utc = encodeCopyValue(new Date(Date.UTC(2024, 0, 2, 3, 4, 5, 6)))
+            assert(utc === '2024-01-02T03:04:05.006+00:00', `设置 parseInputDatesAsUTC 时应按 UTC 编码: ${utc}`)
+        } finally {
+            defaults.parseInputDatesAsUTC = false
+        }
+        logSuccess('时间与 pg 驱动的参数转换一致，默认按本地时间编码')
+
+        const copied = createAdapter()
+        const users = PostgreSQLQueryBuilder.from<User>('users', copied.adapter)
+        const copyCount = await users.bulkInsert([{ id: 1, name: 'John' }, { name: 'Jane' }, { id: 3, name: null as any }], { chunkSize: 2 })
+        assert(copyCount === 3, `COPY 应返回写入的行数: ${copyCount}`)
+        assert(copied.state.queries.join(';') === 'COPY "users" ("id", "name") FROM STDIN', `COPY 语句错误: ${copied.state.queries.join(';')}`)
+        assert(copied.state.copied === '1\tJohn\n\\N\tJane\n3\t\\N\n', `COPY 数据错误: ${JSON.stringify(copied.state.copied)}`)
+        assert(copied.state.releases === 1, 'COPY 后应归还连接')
+        logSuccess('COPY FROM STDIN 写入，缺少的列写入 NULL')
+
+        const failed = createAdapter()
+        error = undefined
+        try {
+            await PostgreSQLQueryBuilder.from<User>('users', failed.adapter).bulkInsert([{ id: 1, name: { size: BigInt(1) } as any }])
+        } catch (e) {
+            error = e
+        }
+        assert(error instanceof TypeError && error.message.includes('BigInt'), `编码出错时应抛出原始错误: ${error}`)
+        assert(failed.state.copied === '' && failed.state.releases === 1, '编码出错时应取消 COPY 并归还连接')
+        logSuccess('编码出错时取消 COPY，抛出原始错误')
+
+        const chunked = createAdapter()
+        const chunkCount = await PostgreSQLQueryBuilder.from<User>('users', chunked.adapter)
+            .bulkInsert([{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }], { method: 'chunked', chunkSize: 2 })
+        assert(chunked.state.queries.join(';') === [
+            'BEGIN',
+            'INSERT INTO "users" ("id", "name") VALUES ($1, $2), ($3, $4)',
+            'INSERT INTO "users" ("id", "name") VALUES ($1, $2)',
+            'COMMIT'
+        ].join(';'), `分批写入语句错误: ${chunked.state.queries.join(';')}`)
+        assert(chunkCount === 2, '应累加每批的写入行数')
+        logSuccess('在一个事务中分批执行 INSERT')
+
+        const limited = createAdapter()
+        const many = Array.from({ length: 40000 }, (_, id) => ({ id, name: 'x' }))
+        await PostgreSQLQueryBuilder.from<User>('users', limited.adapter).bulkInsert(many, { method: 'chunked' })
+        const inserts = limited.state.queries.filter(sql => sql.startsWith('INSERT'))
+        assert(inserts.length === 2 && inserts[0].endsWith('$65534)'), '每批参数数量应不超过 65535')
+        logSuccess('按参数上限自动分批')
+
+        console.log('\n🎉 所有测试通过！')
+        console.log('='.repeat(60))
+
+    } catch (error) {
+        logError(`测试失败: ${error}`)
+        throw error
+    }
+}
+
+main()